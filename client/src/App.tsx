@@ -8,6 +8,8 @@ import LoginPage from './pages/LoginPage';
 import RegisterPage from './pages/RegisterPage';
 import LobbyPage from './pages/LobbyPage';
 import GamePage from './pages/GamePage';
+import ReplayPage from './pages/ReplayPage';
+import SpectatePage from './pages/SpectatePage';
 import PasswordResetRequestPage from './pages/PasswordResetRequestPage';
 import PasswordResetPage from './pages/PasswordResetPage';
 import UserSettingsPage from './pages/UserSettingsPage';
@@ -53,6 +55,14 @@ function App() {
                 path="game/:gameId" 
                 element={isAuthenticated ? <GamePage /> : <Navigate to="/login" replace />} 
               />
+              <Route 
+                path="game/:gameId/replay" 
+                element={isAuthenticated ? <ReplayPage /> : <Navigate to="/login" replace />} 
+              />
+              <Route 
+                path="game/:gameId/spectate" 
+                element={isAuthenticated ? <SpectatePage /> : <Navigate to="/login" replace />} 
+              />
             </Route>
           </Routes>
         )}
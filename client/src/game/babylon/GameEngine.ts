@@ -14,10 +14,40 @@ import {
 import { MapManager } from '../managers/MapManager';
 import { UnitManager } from '../managers/UnitManager';
 import { InputManager } from '../managers/InputManager';
-import { UIManager } from '../managers/UIManager';
-import type { GameState } from '../../../../game-server/src/schemas/GameState';
+import { UIManager, UnitActionOption, RecruitOption } from '../managers/UIManager';
+import type { GameState, Player as PlayerSchema, Unit as UnitSchema } from '../../../../game-server/src/schemas/GameState';
 import type { Room } from 'colyseus.js';
-import { ClientMessageType, UnitAction } from '@tbs/shared';
+import {
+  ClientMessageType,
+  GamePhase,
+  UnitAction,
+  UnitType,
+  AbilityTargeting,
+  getActionCost,
+  canAffordAction,
+  getAbility,
+  getAbilitiesForUnit,
+  getUnitTraits,
+  assertValidUnitCatalogue,
+  VisionUpdatePayload,
+  SpectatorUpdatePayload,
+  RecruitUnitPayload,
+  TileType,
+  UNIT_CATALOGUE,
+  ChoosePerkPayload,
+  getAvailablePerks,
+  EngineState,
+  EngineUnit,
+  ReachableNode,
+  ReplayFrame,
+  ResolvedOrderView,
+  UnitView,
+  SubmitOrdersPayload,
+  TurnMode,
+  DEFAULT_COUNTER_DAMAGE_MULTIPLIER,
+  getReachableTiles,
+  positionKey,
+} from '@tbs/shared';
 
 export class GameEngine {
   private engine!: Engine | WebGPUEngine;
@@ -34,7 +64,21 @@ export class GameEngine {
   private lastGameState: GameState | null = null;
   private currentTurn: number = 0;
   private currentPlayerIndex: number = 0;
+  private activePlayerId: string = '';
+  private gamePhase: string = '';
+  private deploymentType: string | null = null;
+  private pendingAbilityId: string | null = null; // Ability waiting for a target click
+  private visibleEnemies: Map<string, UnitView> = new Map(); // Enemy units in sight, from vision updates
+  private visibleTiles: Set<number> | null = null; // null until the server sends vision
+  private stateTiles: GameState['tiles'] | null = null; // Only the synced room state carries tiles
+  private tileOwners: Map<number, string> = new Map(); // Tile index -> owner as far as we know, from vision updates
   private shadowGenerator!: ShadowGenerator;
+  private replayFrames: ReplayFrame[] | null = null; // Set while a finished game is played back
+  private replayIndex: number = 0;
+  private replayColors: Map<string, string> = new Map(); // Player id -> colour, for tile banners
+  private turnMode: TurnMode = TurnMode.SEQUENTIAL;
+  private plannedOrders: UnitAction[] = []; // Simultaneous turns: orders queued until submitted
+  private playbackTimer: ReturnType<typeof setTimeout> | null = null; // Set while a resolved turn plays out
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
@@ -70,6 +114,9 @@ export class GameEngine {
   }
 
   async initialize(): Promise<void> {
+    // Same check the game server runs on boot, so a client built against bad data fails loudly
+    assertValidUnitCatalogue();
+    
     // Ensure canvas is properly sized before engine initialization
     this.setupCanvasForHighQuality();
     
@@ -235,6 +282,10 @@ export class GameEngine {
       this.handleUnitClick(unitId);
     };
 
+    this.inputManager.onUndo = () => {
+      this.undoLastMove();
+    };
+
     this.inputManager.onCameraMove = (delta) => {
       // Update camera position
       const speed = 0.5;
@@ -251,11 +302,23 @@ export class GameEngine {
   }
 
   private handleTileClick(position: { x: number; z: number }): void {
+    if (this.gamePhase === GamePhase.DEPLOYMENT) {
+      this.deployUnitAt(position);
+      return;
+    }
+
     if (!this.isPlayerTurn()) return;
 
+    if (this.selectedUnitId && this.pendingAbilityId) {
+      this.useAbility(this.selectedUnitId, this.pendingAbilityId, { x: position.x, y: position.z });
+      return;
+    }
+
     if (this.selectedUnitId) {
       // Try to move selected unit to clicked tile
       this.moveUnit(this.selectedUnitId, position);
+    } else if (this.isRecruitableCastle(position.x, position.z)) {
+      this.showRecruitment(position.x, position.z);
     } else {
       // Clear highlights when clicking empty tile
       this.clearSelection();
@@ -265,10 +328,129 @@ export class GameEngine {
   private handleUnitClick(unitId: string): void {
     if (!this.isPlayerTurn()) return;
 
+    const clickedUnit = this.unitManager.getUnitById(unitId);
+    if (this.selectedUnitId && this.pendingAbilityId && clickedUnit) {
+      this.useAbility(this.selectedUnitId, this.pendingAbilityId, {
+        x: clickedUnit.schema.position.x,
+        y: clickedUnit.schema.position.y,
+      }, unitId);
+      return;
+    }
+
+    // Clicking an enemy while one of our units is selected attacks it
+    if (this.selectedUnitId && clickedUnit && !this.isAlly(clickedUnit.schema.playerId)) {
+      this.attackUnit(this.selectedUnitId, unitId);
+      return;
+    }
+
     // Select the clicked unit
     this.selectUnit(unitId);
   }
 
+  public attackUnit(unitId: string, targetUnitId: string): void {
+    console.log('⚔️ Attacking unit:', targetUnitId, 'with:', unitId);
+
+    const attackAction: UnitAction = {
+      unitId: unitId,
+      type: 'attack',
+      targetUnitId: targetUnitId
+    };
+
+    this.sendUnitAction(attackAction);
+    this.clearSelection();
+  }
+
+  private getStateTile(x: number, y: number): GameState['tiles'][number] | undefined {
+    const { width, height } = this.mapManager.getMapDimensions();
+    if (!this.stateTiles || x < 0 || y < 0 || x >= width || y >= height) return undefined;
+    return this.stateTiles[y * width + x];
+  }
+
+  // An empty castle we hold, where new units can be bought
+  private isRecruitableCastle(x: number, y: number): boolean {
+    const tile = this.getStateTile(x, y);
+    return !!tile &&
+      tile.type === TileType.CASTLE &&
+      this.tileOwners.get(y * this.mapManager.getMapDimensions().width + x) === this.currentPlayerId &&
+      !this.unitManager.getUnitAt(x, y);
+  }
+
+  private showRecruitment(x: number, y: number): void {
+    const player = this.lastGameState ? this.getMyPlayer(this.lastGameState) : null;
+    const gold: number = player?.gold ?? 0;
+
+    const options: RecruitOption[] = Object.values(UNIT_CATALOGUE).map(definition => ({
+      unitType: definition.type,
+      name: definition.name,
+      cost: definition.cost.gold,
+      enabled: gold >= definition.cost.gold,
+    }));
+
+    this.mapManager.clearHighlights();
+    this.mapManager.highlightTile(x, y, new Color3(0.9, 0.7, 0));
+    this.uiManager.showRecruitmentPanel(
+      options,
+      gold,
+      (unitType) => this.recruitUnit(unitType, x, y),
+      () => {
+        this.mapManager.clearHighlights();
+        this.uiManager.hideUnitActions();
+      }
+    );
+  }
+
+  public recruitUnit(unitType: string, x: number, y: number): void {
+    if (!this.room) return;
+
+    console.log('🏰 Recruiting', unitType, 'at', x, y);
+    const payload: RecruitUnitPayload = {
+      unitType: unitType as UnitType,
+      position: { x, y },
+    };
+    this.room.send(ClientMessageType.RECRUIT_UNIT, payload);
+
+    this.mapManager.clearHighlights();
+    this.uiManager.hideUnitActions();
+  }
+
+  // The server decides whether the last move can still be taken back
+  public undoLastMove(): void {
+    if (!this.room || !this.isPlayerTurn()) return;
+
+    console.log('↩️ Requesting undo of the last move');
+    this.room.send(ClientMessageType.UNDO, {});
+    this.clearSelection();
+  }
+
+  public choosePerk(unitId: string, perkId: string): void {
+    if (!this.room) return;
+
+    console.log('🎖️ Choosing perk:', perkId, 'for:', unitId);
+    const payload: ChoosePerkPayload = { unitId, perkId };
+    this.room.send(ClientMessageType.CHOOSE_PERK, payload);
+    this.clearSelection();
+  }
+
+  public useAbility(
+    unitId: string,
+    abilityId: string,
+    target: { x: number; y: number },
+    targetUnitId?: string
+  ): void {
+    console.log('✨ Using ability:', abilityId, 'with:', unitId, 'at:', target);
+
+    const abilityAction: UnitAction = {
+      unitId: unitId,
+      type: 'ability',
+      abilityId: abilityId,
+      targetPosition: { x: target.x, y: target.y, z: 0 },
+      targetUnitId: targetUnitId
+    };
+
+    this.sendUnitAction(abilityAction);
+    this.clearSelection();
+  }
+
   private isPlayerTurn(): boolean {
     if (!this.room || !this.currentPlayerId) return false;
     
@@ -292,15 +474,6 @@ export class GameEngine {
     // Show unit actions in UI based on unit state
     const availableActions = this.getAvailableActions(unitId);
     this.uiManager.showUnitActions(unitId, availableActions);
-    
-    // Send selection to server
-    const selectAction: UnitAction = {
-      unitId: unitId,
-      type: 'ability',
-      abilityId: 'select'
-    };
-    
-    this.sendUnitAction(selectAction);
   }
 
   public moveUnit(unitId: string, targetPosition: { x: number; z: number }): void {
@@ -317,10 +490,11 @@ export class GameEngine {
     const moveAction: UnitAction = {
       unitId: unitId,
       type: 'move',
+      // Board rows travel along the world Z axis but are the grid Y coordinate on the server
       targetPosition: {
         x: targetPosition.x,
-        y: 0, // Ground level
-        z: targetPosition.z
+        y: targetPosition.z,
+        z: 0 // Ground level
       }
     };
     
@@ -331,72 +505,166 @@ export class GameEngine {
   }
 
   private isValidMove(unitId: string, targetPosition: { x: number; z: number }): boolean {
-    // Basic validation - check if tile exists and is not occupied
-    const tile = this.mapManager.getTileAt(targetPosition.x, targetPosition.z);
-    if (!tile) return false;
-    
-    const unitAtTarget = this.unitManager.getUnitAt(targetPosition.x, targetPosition.z);
-    if (unitAtTarget) return false;
-    
-    // Check unit movement range
-    const unit = this.unitManager.getUnitById(unitId);
-    if (!unit) return false;
-    
-    const unitPos = unit.mesh.position;
-    const distance = Math.abs(unitPos.x - targetPosition.x) + Math.abs(unitPos.z - targetPosition.z);
-    const maxRange = 2; // Basic movement range
-    
-    return distance <= maxRange;
+    const node = this.getReachableMoves(unitId).get(positionKey(targetPosition.x, targetPosition.z));
+    return !!node && node.canStop && node.cost > 0;
   }
 
   private highlightPossibleMoves(unitId: string): void {
     // Clear previous highlights
     this.mapManager.clearHighlights();
     
-    // Get unit info
-    const unit = this.unitManager.getUnitById(unitId);
-    if (!unit) return;
+    // No point showing moves the player cannot pay for
+    const player = this.lastGameState ? this.getMyPlayer(this.lastGameState) : null;
+    if (!canAffordAction((player?.actionPoints ?? 0) - this.getPlannedCost(), getActionCost('move'))) return;
     
-    // Highlight tiles in movement range (simplified - 3x3 area)
-    const unitPos = unit.mesh.position;
-    const range = 2; // movement range
-    
-    for (let x = Math.max(0, unitPos.x - range); x <= unitPos.x + range; x++) {
-      for (let z = Math.max(0, unitPos.z - range); z <= unitPos.z + range; z++) {
-        if (x === unitPos.x && z === unitPos.z) continue; // Skip current position
-        
-        if (this.isValidMove(unitId, { x, z })) {
-          this.mapManager.highlightTile(x, z, new Color3(0, 1, 0)); // Green for valid moves
-        }
+    // Same pathfinding the server validates with, over the units this client can see
+    this.getReachableMoves(unitId).forEach(node => {
+      if (node.canStop && node.cost > 0) {
+        this.mapManager.highlightTile(node.x, node.y, new Color3(0, 1, 0)); // Green for valid moves
       }
-    }
+    });
+  }
+
+  private getReachableMoves(unitId: string): Map<string, ReachableNode> {
+    const state = this.buildEngineState();
+    return state ? getReachableTiles(state, unitId) : new Map();
+  }
+
+  // What this client knows of the game in the rules engine's shape; hidden enemies are simply absent
+  private buildEngineState(): EngineState | null {
+    if (!this.stateTiles || !this.lastGameState?.units) return null;
+
+    const { width, height } = this.mapManager.getMapDimensions();
+    const units: Record<string, EngineUnit> = {};
+    this.visibleEnemies.forEach((unit, unitId) => {
+      units[unitId] = this.toEngineUnit(unit);
+    });
+    this.lastGameState.units.forEach((unit, unitId) => {
+      units[unitId] = this.toEngineUnit(this.toUnitView(unit));
+    });
+
+    return {
+      width,
+      height,
+      tiles: this.stateTiles.map((tile, index) => ({
+        type: tile.type,
+        isWalkable: tile.isWalkable,
+        movementCost: tile.movementCost,
+        defenseBonus: tile.defenseBonus,
+        ownerId: this.tileOwners.get(index) ?? '',
+      })),
+      units,
+      players: Object.fromEntries(this.getPlayerList(this.lastGameState).map(player => [player.id, {
+        id: player.id,
+        team: player.team ?? 0,
+        gold: player.gold,
+        mana: player.mana,
+        actionPoints: player.actionPoints,
+      }])),
+      settings: {
+        rangeMetric: this.lastGameState.rangeMetric || 'manhattan',
+        counterDamageMultiplier: this.lastGameState.counterDamageMultiplier ?? DEFAULT_COUNTER_DAMAGE_MULTIPLIER,
+      },
+      seed: 0, // The game's seed stays on the server; previews draw nothing that matters
+    };
+  }
+
+  // A synced unit in the same plain shape enemies arrive in through vision updates
+  private toUnitView(unit: UnitSchema): UnitView {
+    return {
+      id: unit.id,
+      playerId: unit.playerId,
+      type: unit.type,
+      position: { x: unit.position.x, y: unit.position.y, z: unit.position.z },
+      health: unit.health,
+      maxHealth: unit.maxHealth,
+      attack: unit.attack,
+      defense: unit.defense,
+      movement: unit.movement,
+      range: unit.range,
+      minRange: unit.minRange,
+      sight: unit.sight,
+      effects: unit.effects.map(effect => ({
+        effectId: effect.effectId,
+        turnsRemaining: effect.turnsRemaining,
+        stacks: effect.stacks,
+      })),
+      cooldowns: Object.fromEntries(unit.cooldowns.entries()),
+      experience: unit.experience,
+      rank: unit.rank,
+      pendingPerks: unit.pendingPerks,
+      perks: unit.perks.toArray(),
+      hasMoved: unit.hasMoved,
+      hasAttacked: unit.hasAttacked,
+      isAlive: unit.isAlive,
+    };
+  }
+
+  private toEngineUnit(unit: UnitView): EngineUnit {
+    return {
+      ...unit,
+      position: { x: unit.position.x, y: unit.position.y },
+      effects: unit.effects.map(effect => ({ ...effect })),
+      cooldowns: { ...unit.cooldowns },
+      perks: [...unit.perks],
+    };
   }
 
   private clearSelection(): void {
+    this.pendingAbilityId = null;
     if (this.selectedUnitId) {
       console.log('🔄 Clearing selection');
       this.selectedUnitId = null;
       this.mapManager.clearHighlights();
       this.uiManager.hideUnitActions();
     }
+    this.showPlannedOrders();
   }
 
-  private getAvailableActions(unitId: string): string[] {
+  private getAvailableActions(unitId: string): UnitActionOption[] {
     const unit = this.unitManager.getUnitById(unitId);
     if (!unit) return [];
     
-    const actions: string[] = [];
+    const player = this.lastGameState ? this.getMyPlayer(this.lastGameState) : null;
+    const actionPoints: number = (player?.actionPoints ?? 0) - this.getPlannedCost();
+    const actions: UnitActionOption[] = [];
+    // Siege engines either reposition or fire in a turn, never both
+    const moveAndFireLocked = getUnitTraits(unit.schema.type).cannotMoveAndFire;
     
-    // Basic actions that are always available
     if (!unit.schema.hasMoved) {
-      actions.push('Move');
+      const cost = getActionCost('move');
+      const locked = moveAndFireLocked && unit.schema.hasAttacked;
+      actions.push({ id: 'move', name: 'Move', cost, enabled: !locked && canAffordAction(actionPoints, cost) });
     }
     
     if (!unit.schema.hasAttacked) {
-      actions.push('Attack');
+      const cost = getActionCost('attack');
+      const locked = moveAndFireLocked && unit.schema.hasMoved;
+      actions.push({ id: 'attack', name: 'Attack', cost, enabled: !locked && canAffordAction(actionPoints, cost) });
+      
+      // Abilities share the unit's attack for the turn and also need mana and no cooldown
+      const mana: number = player?.mana ?? 0;
+      getAbilitiesForUnit(unit.schema.type as UnitType).forEach(ability => {
+        const cooldown: number = unit.schema.cooldowns?.get(ability.id) ?? 0;
+        const abilityCost = getActionCost('ability');
+        actions.push({
+          id: ability.id,
+          name: cooldown > 0 ? `${ability.name} [${cooldown}]` : `${ability.name} ${ability.manaCost}MP`,
+          cost: abilityCost,
+          enabled: cooldown === 0 && mana >= ability.manaCost && canAffordAction(actionPoints, abilityCost),
+        });
+      });
     }
     
-    actions.push('Skip');
+    // Promotions waiting for the player to pick a perk
+    if ((unit.schema.pendingPerks ?? 0) > 0) {
+      const taken: string[] = unit.schema.perks ? Array.from(unit.schema.perks) as string[] : [];
+      getAvailablePerks(unit.schema.range, taken).forEach(perk => {
+        actions.push({ id: `perk:${perk.id}`, name: `★ ${perk.name}`, cost: 0, enabled: true });
+      });
+    }
+    
+    actions.push({ id: 'skip', name: 'Skip', cost: 0, enabled: true });
     
     return actions;
   }
@@ -419,8 +687,11 @@ export class GameEngine {
       return;
     }
 
-    let unitAction: UnitAction;
-    
+    if (action.startsWith('perk:')) {
+      this.choosePerk(unitId, action.slice('perk:'.length));
+      return;
+    }
+
     switch (action.toLowerCase()) {
       case 'move':
         // For move, we need to wait for tile selection
@@ -435,18 +706,28 @@ export class GameEngine {
         break;
         
       case 'skip':
-        // Skip turn for this unit
-        unitAction = {
-          unitId: unitId,
-          type: 'ability',
-          abilityId: 'skip'
-        };
-        this.sendUnitAction(unitAction);
+        // Nothing to tell the server, the unit simply stays put this turn
         break;
         
-      default:
-        console.warn(`⚠️ Unknown action: ${action}`);
+      default: {
+        const ability = getAbility(action);
+        if (!ability) {
+          console.warn(`⚠️ Unknown action: ${action}`);
+          return;
+        }
+        
+        if (ability.targeting === AbilityTargeting.SELF) {
+          this.useAbility(unitId, ability.id, {
+            x: unit.schema.position.x,
+            y: unit.schema.position.y,
+          });
+          return;
+        }
+        
+        this.pendingAbilityId = ability.id;
+        this.uiManager.showMessage(`Select a target for ${ability.name}`, 3000);
         return;
+      }
     }
     
     // Clear selection for actions that don't require further input
@@ -461,6 +742,11 @@ export class GameEngine {
       return;
     }
 
+    if (this.turnMode === TurnMode.SIMULTANEOUS) {
+      this.planOrder(action);
+      return;
+    }
+
     console.log('📤 Sending unit action to server:', action);
     
     this.room.send(ClientMessageType.UNIT_ACTION, {
@@ -469,6 +755,76 @@ export class GameEngine {
     });
   }
 
+  // Each unit gets at most one move and one attack or ability per turn; a new order replaces the old one
+  private planOrder(action: UnitAction): void {
+    const isMove = action.type === 'move';
+    const remaining = this.plannedOrders.filter(order =>
+      order.unitId !== action.unitId || (order.type === 'move') !== isMove
+    );
+    const player = this.lastGameState ? this.getMyPlayer(this.lastGameState) : null;
+    const spent = remaining.reduce((total, order) => total + getActionCost(order.type), 0);
+
+    if (!canAffordAction((player?.actionPoints ?? 0) - spent, getActionCost(action.type))) {
+      this.uiManager.showMessage('Not enough action points for another order', 2000);
+      return;
+    }
+
+    this.plannedOrders = [...remaining, action];
+    console.log('📝 Order planned:', action, 'total:', this.plannedOrders.length);
+    this.uiManager.showMessage(`${this.plannedOrders.length} order(s) planned`, 1500);
+  }
+
+  private getPlannedCost(): number {
+    return this.plannedOrders.reduce((total, order) => total + getActionCost(order.type), 0);
+  }
+
+  // Planned destinations and targets stay marked until the turn resolves
+  private showPlannedOrders(): void {
+    this.plannedOrders.forEach(order => {
+      if (!order.targetPosition) return;
+      this.mapManager.highlightTile(order.targetPosition.x, order.targetPosition.y, new Color3(0.6, 0.2, 0.9));
+    });
+  }
+
+  public getPlannedOrderCount(): number {
+    return this.plannedOrders.length;
+  }
+
+  public submitOrders(): void {
+    if (!this.room || !this.isPlayerTurn()) return;
+
+    console.log('📨 Submitting orders:', this.plannedOrders.length);
+    const payload: SubmitOrdersPayload = { orders: this.plannedOrders };
+    this.room.send(ClientMessageType.SUBMIT_ORDERS, payload);
+    this.clearSelection();
+  }
+
+  // Plays the resolved turn back one order at a time before showing the board as it is now
+  public playResolvedTurn(steps: ResolvedOrderView[]): void {
+    this.plannedOrders = [];
+    this.clearSelection();
+    this.mapManager.clearHighlights();
+    if (this.playbackTimer) clearTimeout(this.playbackTimer);
+
+    const playStep = (index: number) => {
+      const step = steps[index];
+      if (!step) {
+        this.playbackTimer = null;
+        if (this.lastGameState?.units) {
+          this.updateUnits(this.withVisibleEnemies(this.lastGameState.units));
+        }
+        return;
+      }
+
+      if (step.success) {
+        this.updateUnits(new Map(step.units.map(unit => [unit.id, unit])));
+      }
+      this.playbackTimer = setTimeout(() => playStep(index + 1), step.success ? 600 : 0);
+    };
+
+    playStep(0);
+  }
+
   updateGameState(state: GameState): void {
     // Guard against invalid state
     if (!state) {
@@ -483,9 +839,10 @@ export class GameEngine {
       unitsCount: state.units ? state.units.size : 0
     });
 
-    // Update map if needed
-    if (!this.mapManager.isInitialized()) {
-      this.mapManager.createMap(state.mapWidth, state.mapHeight);
+    // Build the map once the server has synced its terrain
+    if (!this.mapManager.isInitialized() && state.tiles && state.tiles.length > 0) {
+      this.mapManager.createMap(state.mapWidth, state.mapHeight, state.tiles.toArray());
+      this.mapManager.setVisibleTiles(this.visibleTiles);
     }
 
     // Check for turn changes
@@ -498,10 +855,19 @@ export class GameEngine {
     // Update current turn and player info
     this.currentTurn = state.turnNumber;
     this.currentPlayerIndex = state.currentPlayerIndex;
+    this.activePlayerId = state.currentPlayerId || '';
+    this.turnMode = (state.turnMode as TurnMode) || TurnMode.SEQUENTIAL;
+
+    if (this.gamePhase !== state.phase) {
+      this.handlePhaseChange(state.phase);
+    }
+    this.gamePhase = state.phase;
+
+    this.updateTileOwners(state);
 
-    // Update units with null check
+    // Update units with null check; a resolved turn playing back catches up once it ends
     if (state.units) {
-      this.updateUnits(state.units);
+      if (!this.playbackTimer) this.updateUnits(this.withVisibleEnemies(state.units));
     } else {
       console.warn('⚠️ GameEngine: state.units is undefined, skipping units update');
     }
@@ -513,10 +879,144 @@ export class GameEngine {
       phase: state.phase,
     });
 
+    // Deployment UI depends on tiles and units, so refresh it after both are updated
+    if (this.gamePhase === GamePhase.DEPLOYMENT) {
+      this.updateDeployment(state);
+    }
+
     // Store current state for comparison
     this.lastGameState = state;
   }
 
+  private updateTileOwners(state: GameState): void {
+    if (!state.tiles || !this.mapManager.isInitialized()) return;
+    this.stateTiles = state.tiles;
+
+    const list = this.getPlayerList(state);
+
+    // Owners are not part of the synced tiles, so hidden captures stay hidden
+    state.tiles.forEach((tile, index) => {
+      if (tile.type !== TileType.CASTLE && tile.type !== TileType.VILLAGE) return;
+      const ownerId = this.tileOwners.get(index);
+      const owner = ownerId ? list.find(player => player.id === ownerId) : null;
+      this.mapManager.setTileOwner(tile.position.x, tile.position.y, owner?.color || null);
+    });
+  }
+
+  // The schema only carries our own units, enemies in sight come from vision updates
+  private withVisibleEnemies(units: Map<string, UnitSchema>): Map<string, UnitSchema | UnitView> {
+    const merged = new Map<string, UnitSchema | UnitView>();
+    units.forEach((unit, unitId) => merged.set(unitId, unit));
+    this.visibleEnemies.forEach((unit, unitId) => {
+      if (!merged.has(unitId)) merged.set(unitId, unit);
+    });
+    return merged;
+  }
+
+  updateVision(vision: VisionUpdatePayload): void {
+    this.visibleEnemies = new Map(vision.units.map(unit => [unit.id, unit]));
+    this.visibleTiles = new Set(vision.visibleTiles);
+    this.mapManager.setVisibleTiles(this.visibleTiles);
+    this.tileOwners = new Map(Object.entries(vision.tileOwners ?? {}).map(([index, ownerId]) => [Number(index), ownerId]));
+    if (this.lastGameState) {
+      this.updateTileOwners(this.lastGameState);
+    }
+
+    if (this.lastGameState?.units && !this.playbackTimer) {
+      this.updateUnits(this.withVisibleEnemies(this.lastGameState.units));
+    }
+  }
+
+  private handlePhaseChange(phase: string): void {
+    console.log('🔄 Phase changed:', this.gamePhase, '->', phase);
+
+    if (phase === GamePhase.DEPLOYMENT) {
+      this.uiManager.showMessage('Deploy your army!', 3000);
+    } else if (phase === GamePhase.BATTLE && this.gamePhase === GamePhase.DEPLOYMENT) {
+      this.deploymentType = null;
+      this.mapManager.clearHighlights();
+      this.uiManager.hideUnitActions();
+      this.uiManager.showMessage('Battle begins!', 3000);
+    }
+  }
+
+  private getPlayerList(state: GameState): PlayerSchema[] {
+    return state.players ? Array.from(state.players.values()) : [];
+  }
+
+  private getMyPlayer(state: GameState): PlayerSchema | null {
+    return this.getPlayerList(state).find(player => player.id === this.currentPlayerId) || null;
+  }
+
+  // Our own units and those of teammates
+  private isAlly(playerId: string): boolean {
+    if (playerId === this.currentPlayerId) return true;
+    const me = this.lastGameState ? this.getMyPlayer(this.lastGameState) : null;
+    const other = this.lastGameState
+      ? this.getPlayerList(this.lastGameState).find(player => player.id === playerId)
+      : null;
+    return !!me && !!other && me.team === other.team;
+  }
+
+  private updateDeployment(state: GameState): void {
+    const player = this.getMyPlayer(state);
+    if (!player || !player.spawnPoint || !this.mapManager.isInitialized()) return;
+
+    const reserve = player.reserve.toArray();
+    if (player.deploymentDone) {
+      this.deploymentType = null;
+      this.mapManager.clearHighlights();
+      this.uiManager.hideUnitActions();
+      return;
+    }
+
+    if (!this.deploymentType || !reserve.includes(this.deploymentType)) {
+      this.deploymentType = reserve[0] || null;
+    }
+
+    // Highlight free tiles of the deployment zone (grid Y maps to world Z)
+    this.mapManager.clearHighlights();
+    const radius = state.deploymentRadius;
+    for (let dx = -radius; dx <= radius; dx++) {
+      for (let dz = -radius; dz <= radius; dz++) {
+        const x = player.spawnPoint.x + dx;
+        const z = player.spawnPoint.y + dz;
+        if (this.mapManager.getTileAt(x, z) && !this.unitManager.getUnitAt(x, z)) {
+          this.mapManager.highlightTile(x, z, new Color3(0, 0.4, 1));
+        }
+      }
+    }
+
+    this.uiManager.showDeploymentPanel(
+      reserve,
+      this.deploymentType,
+      (unitType) => {
+        this.deploymentType = unitType;
+        if (this.lastGameState) this.updateDeployment(this.lastGameState);
+      },
+      () => this.finishDeployment()
+    );
+  }
+
+  private deployUnitAt(position: { x: number; z: number }): void {
+    if (!this.room || !this.deploymentType) return;
+
+    console.log('📤 Deploying', this.deploymentType, 'at', position);
+    this.room.send(ClientMessageType.DEPLOY_UNIT, {
+      unitType: this.deploymentType as UnitType,
+      position: { x: position.x, y: position.z, z: 0 },
+    });
+  }
+
+  private finishDeployment(): void {
+    if (!this.room) return;
+
+    this.room.send(ClientMessageType.DEPLOYMENT_DONE, {});
+    this.mapManager.clearHighlights();
+    this.uiManager.hideUnitActions();
+    this.uiManager.showMessage('Waiting for other players to deploy...', 3000);
+  }
+
   private handleTurnChange(newState: GameState): void {
     console.log('🔄 Turn changed:', {
       oldTurn: this.lastGameState?.turnNumber,
@@ -533,9 +1033,11 @@ export class GameEngine {
       this.uiManager.showMessage(`Turn ${newState.turnNumber}`, 3000);
     }
 
-    // Show current player indicator
-    const isMyTurn = newState.currentPlayerIndex.toString() === this.currentPlayerId;
-    if (isMyTurn) {
+    // Show current player indicator; in simultaneous turns everyone plans at once
+    const isMyTurn = newState.currentPlayerId === this.currentPlayerId;
+    if (newState.turnMode === TurnMode.SIMULTANEOUS) {
+      this.uiManager.showMessage('Plan your orders!', 2000);
+    } else if (isMyTurn) {
       this.uiManager.showMessage('Your turn!', 2000);
     } else {
       this.uiManager.showMessage(`Player ${newState.currentPlayerIndex}'s turn`, 2000);
@@ -592,7 +1094,11 @@ export class GameEngine {
   }
 
   public isMyTurn(): boolean {
-    return this.currentPlayerIndex.toString() === this.currentPlayerId;
+    if (this.turnMode === TurnMode.SIMULTANEOUS) {
+      const player = this.lastGameState ? this.getMyPlayer(this.lastGameState) : null;
+      return this.gamePhase === GamePhase.BATTLE && !!player && !player.ordersSubmitted;
+    }
+    return this.gamePhase === GamePhase.BATTLE && this.activePlayerId === this.currentPlayerId;
   }
 
   public clearUnitSelection(): void {
@@ -617,7 +1123,71 @@ export class GameEngine {
     this.uiManager.showMessage('New turn started!', 2000);
   }
 
+  // Replay mode: there is no room, fog is lifted and the board jumps between turn frames
+  loadReplay(frames: ReplayFrame[], playerColors: Record<string, string>): void {
+    this.replayFrames = frames;
+    this.replayColors = new Map(Object.entries(playerColors));
+    this.clearSelection();
+    this.showReplayFrame(0);
+  }
+
+  showReplayFrame(index: number): ReplayFrame | null {
+    if (!this.replayFrames || this.replayFrames.length === 0) return null;
+
+    this.replayIndex = Math.max(0, Math.min(index, this.replayFrames.length - 1));
+    const frame = this.replayFrames[this.replayIndex];
+
+    this.showEngineState(frame.state, null);
+    this.currentTurn = frame.turnNumber;
+    this.activePlayerId = frame.playerId || '';
+    this.uiManager.showMessage(`Turn ${frame.turnNumber}`, 1500);
+
+    return frame;
+  }
+
+  // Spectator mode: like a replay, but the server pushes each board as the game goes on
+  showSpectatorView(update: SpectatorUpdatePayload, playerColors: Record<string, string>): void {
+    this.replayColors = new Map(Object.entries(playerColors));
+    this.showEngineState(update.state, update.visibleTiles);
+
+    if (this.currentTurn !== update.turnNumber) {
+      this.uiManager.showMessage(`Turn ${update.turnNumber}`, 1500);
+    }
+    this.currentTurn = update.turnNumber;
+    this.activePlayerId = update.currentPlayerId;
+    this.gamePhase = update.phase;
+  }
+
+  private showEngineState(state: EngineState, visibleTiles: number[] | null): void {
+    if (!this.mapManager.isInitialized()) {
+      this.mapManager.createMap(state.width, state.height, state.tiles.map((tile, tileIndex) => ({
+        position: { x: tileIndex % state.width, y: Math.floor(tileIndex / state.width) },
+        type: tile.type,
+      })));
+    }
+    this.visibleTiles = visibleTiles ? new Set(visibleTiles) : null;
+    this.mapManager.setVisibleTiles(this.visibleTiles);
+
+    state.tiles.forEach((tile, tileIndex) => {
+      if (tile.type !== TileType.CASTLE && tile.type !== TileType.VILLAGE) return;
+      const color = tile.ownerId ? this.replayColors.get(tile.ownerId) || null : null;
+      this.mapManager.setTileOwner(tileIndex % state.width, Math.floor(tileIndex / state.width), color);
+    });
+
+    // Engine units carry the fields the unit meshes read
+    this.updateUnits(new Map(Object.entries(state.units)));
+  }
+
+  stepReplay(delta: number): ReplayFrame | null {
+    return this.showReplayFrame(this.replayIndex + delta);
+  }
+
+  getReplayPosition(): { index: number; total: number } {
+    return { index: this.replayIndex, total: this.replayFrames?.length ?? 0 };
+  }
+
   dispose(): void {
+    if (this.playbackTimer) clearTimeout(this.playbackTimer);
     this.scene.dispose();
     this.engine.dispose();
     window.removeEventListener('resize', () => {
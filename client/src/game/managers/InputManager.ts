@@ -15,6 +15,7 @@ export class InputManager {
   public onTileClick?: (position: { x: number; z: number }) => void;
   public onUnitClick?: (unitId: string) => void;
   public onCameraMove?: (delta: { x: number; y: number }) => void;
+  public onUndo?: () => void;
   
   // Input state
   private isRightMouseDown = false;
@@ -53,6 +54,12 @@ export class InputManager {
     this.scene.onKeyboardObservable.add((kbInfo) => {
       switch (kbInfo.type) {
         case KeyboardEventTypes.KEYDOWN:
+          // Ctrl+Z (Cmd+Z on macOS) takes back the last move
+          if ((kbInfo.event.ctrlKey || kbInfo.event.metaKey) && kbInfo.event.key.toLowerCase() === 'z') {
+            kbInfo.event.preventDefault();
+            this.onUndo?.();
+            break;
+          }
           this.keysPressed.add(kbInfo.event.key.toLowerCase());
           break;
         case KeyboardEventTypes.KEYUP:
@@ -10,6 +10,11 @@ import {
 import { GridMaterial } from '@babylonjs/materials';
 import { TileType } from '@tbs/shared';
 
+export interface TileData {
+  position: { x: number; y: number };
+  type: string;
+}
+
 interface TileMesh {
   mesh: Mesh;
   position: Vector3;
@@ -24,6 +29,9 @@ export class MapManager {
   private mapHeight: number = 0;
   private initialized: boolean = false;
   private shadowGenerator: ShadowGenerator | null = null;
+  private shroud: Map<string, Mesh> = new Map();
+  private ownerBanners: Map<string, { mesh: Mesh; color: string }> = new Map();
+  private shroudMaterial: StandardMaterial | null = null;
 
   constructor(scene: Scene) {
     this.scene = scene;
@@ -33,7 +41,7 @@ export class MapManager {
     this.shadowGenerator = shadowGenerator;
   }
 
-  createMap(width: number, height: number): void {
+  createMap(width: number, height: number, tiles: TileData[]): void {
     this.mapWidth = width;
     this.mapHeight = height;
     
@@ -43,8 +51,8 @@ export class MapManager {
     // Create grid overlay
     this.createGrid();
     
-    // Create base tiles
-    this.createTiles();
+    // Create base tiles from the server-provided terrain
+    this.createTiles(tiles);
     
     this.initialized = true;
     console.log(`🗺️ Map created: ${width}x${height} with enhanced materials`);
@@ -81,19 +89,22 @@ export class MapManager {
     this.gridMesh.receiveShadows = true;
   }
 
-  private createTiles(): void {
+  private createTiles(tiles: TileData[]): void {
     // Create enhanced tile materials
     const materials = this.createTileMaterials();
     
-    for (let x = 0; x < this.mapWidth; x++) {
-      for (let z = 0; z < this.mapHeight; z++) {
-        const tileType = this.generateTileType(x, z);
-        const tile = this.createTile(x, z, tileType, materials);
-        
-        const key = `${x},${z}`;
-        this.tiles.set(key, tile);
-      }
-    }
+    tiles.forEach((tileData) => {
+      // Grid Y on the server maps to world Z
+      const x = tileData.position.x;
+      const z = tileData.position.y;
+      const tileType = materials.has(tileData.type as TileType)
+        ? (tileData.type as TileType)
+        : TileType.GRASS;
+      const tile = this.createTile(x, z, tileType, materials);
+      
+      const key = `${x},${z}`;
+      this.tiles.set(key, tile);
+    });
   }
 
   private createTileMaterials(): Map<TileType, StandardMaterial> {
@@ -154,6 +165,15 @@ export class MapManager {
     castleMat.ambientColor = new Color3(0.2, 0.2, 0.2);
     materials.set(TileType.CASTLE, castleMat);
     
+    // Village material
+    const villageMat = new StandardMaterial('villageMat', this.scene);
+    villageMat.diffuseColor = new Color3(0.75, 0.6, 0.35);
+    villageMat.specularColor = new Color3(0.1, 0.1, 0.1);
+    villageMat.specularPower = 16;
+    villageMat.roughness = 0.8;
+    villageMat.ambientColor = new Color3(0.2, 0.15, 0.08);
+    materials.set(TileType.VILLAGE, villageMat);
+    
     return materials;
   }
 
@@ -210,6 +230,10 @@ export class MapManager {
           this.shadowGenerator.addShadowCaster(tile);
         }
         break;
+      case TileType.VILLAGE:
+        tile.scaling.y = 1.5;
+        tile.position.y = 0.05;
+        break;
     }
     
     return {
@@ -220,23 +244,6 @@ export class MapManager {
   }
 
 
-
-  private generateTileType(x: number, z: number): TileType {
-    // Simple terrain generation
-    const noise = Math.sin(x * 0.3) * Math.cos(z * 0.3) + Math.random() * 0.5;
-    
-    if (noise > 0.6) return TileType.MOUNTAIN;
-    if (noise > 0.3) return TileType.FOREST;
-    if (noise < -0.3) return TileType.WATER;
-    
-    // Add some roads
-    if ((x % 5 === 2 || z % 5 === 2) && Math.random() > 0.7) {
-      return TileType.ROAD;
-    }
-    
-    return TileType.GRASS;
-  }
-
   getTileAt(x: number, z: number): TileMesh | undefined {
     return this.tiles.get(`${x},${z}`);
   }
@@ -256,12 +263,74 @@ export class MapManager {
     });
   }
 
+  // Plants a banner in the owner's colour on a castle or village; null removes it
+  setTileOwner(x: number, z: number, color: string | null): void {
+    const key = `${x},${z}`;
+    const current = this.ownerBanners.get(key);
+    if (current?.color === color) return;
+
+    current?.mesh.dispose();
+    this.ownerBanners.delete(key);
+    if (!color) return;
+
+    const banner = MeshBuilder.CreateCylinder(`banner_${x}_${z}`, { height: 0.5, diameter: 0.08 }, this.scene);
+    banner.position = new Vector3(x + 0.35, 0.5, z + 0.35);
+    banner.isPickable = false;
+
+    const material = new StandardMaterial(`bannerMat_${x}_${z}`, this.scene);
+    material.diffuseColor = Color3.FromHexString(color);
+    material.emissiveColor = Color3.FromHexString(color).scale(0.4);
+    banner.material = material;
+
+    this.ownerBanners.set(key, { mesh: banner, color });
+  }
+
+  // Darkens every tile outside the player's vision; passing null lifts the shroud entirely
+  setVisibleTiles(visibleTiles: Set<number> | null): void {
+    this.tiles.forEach((tile, key) => {
+      // Grid Y on the server maps to world Z
+      const index = tile.position.z * this.mapWidth + tile.position.x;
+      const hidden = visibleTiles !== null && !visibleTiles.has(index);
+
+      let shroud = this.shroud.get(key);
+      if (!shroud && hidden) {
+        shroud = this.createShroud(tile.position.x, tile.position.z);
+        this.shroud.set(key, shroud);
+      }
+      if (shroud) {
+        shroud.isVisible = hidden;
+      }
+    });
+  }
+
+  private createShroud(x: number, z: number): Mesh {
+    if (!this.shroudMaterial) {
+      this.shroudMaterial = new StandardMaterial('shroudMat', this.scene);
+      this.shroudMaterial.diffuseColor = Color3.Black();
+      this.shroudMaterial.specularColor = Color3.Black();
+      this.shroudMaterial.disableLighting = true;
+      this.shroudMaterial.alpha = 0.6;
+    }
+
+    const shroud = MeshBuilder.CreateGround(`shroud_${x}_${z}`, { width: 1, height: 1 }, this.scene);
+    shroud.position = new Vector3(x, 0.45, z); // Just above the tallest terrain
+    shroud.material = this.shroudMaterial;
+    shroud.isPickable = false; // Clicks go through to the tile underneath
+    return shroud;
+  }
+
   private clearMap(): void {
     this.tiles.forEach((tile) => {
       tile.mesh.dispose();
     });
     this.tiles.clear();
     
+    this.shroud.forEach((mesh) => mesh.dispose());
+    this.shroud.clear();
+    
+    this.ownerBanners.forEach((banner) => banner.mesh.dispose());
+    this.ownerBanners.clear();
+    
     if (this.gridMesh) {
       this.gridMesh.dispose();
       this.gridMesh = null;
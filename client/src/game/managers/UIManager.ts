@@ -13,6 +13,20 @@ interface GameInfo {
   phase: string;
 }
 
+export interface RecruitOption {
+  unitType: string;
+  name: string;
+  cost: number;
+  enabled: boolean;
+}
+
+export interface UnitActionOption {
+  id: string;
+  name: string;
+  cost: number;
+  enabled: boolean;
+}
+
 export class UIManager {
   private advancedTexture: AdvancedDynamicTexture;
   private actionPanel!: StackPanel;
@@ -48,20 +62,31 @@ export class UIManager {
     // This method is kept for compatibility but does nothing
   }
 
-  showUnitActions(unitId: string, actions: string[]): void {
+  showUnitActions(unitId: string, actions: UnitActionOption[]): void {
     // Clear existing buttons
     this.actionPanel.clearControls();
     
     // Create action buttons
     actions.forEach((action) => {
-      const button = Button.CreateSimpleButton(`${action}_btn`, action);
+      const label = action.cost > 0 ? `${action.name} (${action.cost} AP)` : action.name;
+      const button = Button.CreateSimpleButton(`${action.id}_btn`, label);
       button.width = '180px';
       button.height = '40px';
       button.color = 'white';
       button.cornerRadius = 5;
-      button.background = 'rgba(59, 130, 246, 0.8)';
       button.fontSize = 16;
       
+      // Unaffordable actions stay visible but greyed out and inert
+      if (!action.enabled) {
+        button.background = 'rgba(107, 114, 128, 0.6)';
+        button.alpha = 0.6;
+        button.isEnabled = false;
+        this.actionPanel.addControl(button);
+        return;
+      }
+      
+      button.background = 'rgba(59, 130, 246, 0.8)';
+      
       button.onPointerEnterObservable.add(() => {
         button.background = 'rgba(59, 130, 246, 1)';
       });
@@ -71,13 +96,100 @@ export class UIManager {
       });
       
       button.onPointerClickObservable.add(() => {
-        this.handleAction(unitId, action);
+        this.handleAction(unitId, action.id);
       });
       
       this.actionPanel.addControl(button);
     });
   }
 
+  showDeploymentPanel(
+    unitTypes: string[],
+    selectedType: string | null,
+    onSelect: (unitType: string) => void,
+    onDone: () => void
+  ): void {
+    this.actionPanel.clearControls();
+
+    const title = new TextBlock();
+    title.text = unitTypes.length > 0 ? 'Deploy units' : 'All units deployed';
+    title.color = 'white';
+    title.fontSize = 18;
+    title.height = '30px';
+    this.actionPanel.addControl(title);
+
+    unitTypes.forEach((unitType, index) => {
+      const button = Button.CreateSimpleButton(`deploy_${unitType}_${index}_btn`, unitType);
+      button.width = '180px';
+      button.height = '40px';
+      button.color = 'white';
+      button.cornerRadius = 5;
+      button.fontSize = 16;
+      button.background = unitType === selectedType
+        ? 'rgba(234, 179, 8, 0.9)'
+        : 'rgba(59, 130, 246, 0.8)';
+
+      button.onPointerClickObservable.add(() => onSelect(unitType));
+      this.actionPanel.addControl(button);
+    });
+
+    const doneButton = Button.CreateSimpleButton('deployment_done_btn', 'Done');
+    doneButton.width = '180px';
+    doneButton.height = '40px';
+    doneButton.color = 'white';
+    doneButton.cornerRadius = 5;
+    doneButton.fontSize = 16;
+    doneButton.background = 'rgba(22, 163, 74, 0.8)';
+    doneButton.onPointerClickObservable.add(() => onDone());
+    this.actionPanel.addControl(doneButton);
+  }
+
+  showRecruitmentPanel(
+    options: RecruitOption[],
+    gold: number,
+    onRecruit: (unitType: string) => void,
+    onClose: () => void
+  ): void {
+    this.actionPanel.clearControls();
+
+    const title = new TextBlock();
+    title.text = `Recruit (${gold} gold)`;
+    title.color = 'white';
+    title.fontSize = 18;
+    title.height = '30px';
+    this.actionPanel.addControl(title);
+
+    options.forEach((option) => {
+      const button = Button.CreateSimpleButton(`recruit_${option.unitType}_btn`, `${option.name} (${option.cost}g)`);
+      button.width = '180px';
+      button.height = '40px';
+      button.color = 'white';
+      button.cornerRadius = 5;
+      button.fontSize = 16;
+
+      if (option.enabled) {
+        button.background = 'rgba(234, 179, 8, 0.8)';
+        button.onPointerClickObservable.add(() => onRecruit(option.unitType));
+      } else {
+        button.background = 'rgba(107, 114, 128, 0.6)';
+        button.alpha = 0.6;
+        button.isEnabled = false;
+      }
+
+      this.actionPanel.addControl(button);
+    });
+
+    const closeButton = Button.CreateSimpleButton('recruit_close_btn', 'Close');
+    closeButton.width = '180px';
+    closeButton.height = '40px';
+    closeButton.color = 'white';
+    closeButton.cornerRadius = 5;
+    closeButton.fontSize = 16;
+    closeButton.background = 'rgba(75, 85, 99, 0.8)';
+    closeButton.onPointerClickObservable.add(() => onClose());
+    this.actionPanel.addControl(closeButton);
+  }
+
   hideUnitActions(): void {
     this.actionPanel.clearControls();
   }
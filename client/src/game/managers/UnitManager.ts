@@ -7,14 +7,19 @@ import {
   Mesh,
   Animation,
   ShadowGenerator,
+  DynamicTexture,
 } from '@babylonjs/core';
 import { Unit as UnitSchema } from '../../../../game-server/src/schemas/GameState';
-import { UnitType } from '@tbs/shared';
+import { ActiveStatusEffect, UnitType, getStatusEffect, getUnitDefinition } from '@tbs/shared';
 
 interface UnitMesh {
   id: string;
   mesh: Mesh;
   healthBar: Mesh;
+  insignia: Mesh | null; // Rank chevrons, null for recruits
+  rank: number;
+  statusIcons: Mesh | null; // Icons of the running status effects
+  statusKey: string;
   schema: UnitSchema;
 }
 
@@ -70,19 +75,25 @@ export class UnitManager {
     // Create health bar
     const healthBar = this.createHealthBar(mesh);
     
-    // Position unit
+    // Position unit (grid Y maps to world Z)
     mesh.position = new Vector3(
       unitData.position.x,
       0.5,
-      unitData.position.z
+      unitData.position.y
     );
     
     const unitMesh: UnitMesh = {
       id,
       mesh,
       healthBar,
+      insignia: null,
+      rank: 0,
+      statusIcons: null,
+      statusKey: '',
       schema: unitData,
     };
+    this.updateRankInsignia(unitMesh, unitData.rank ?? 0);
+    this.updateStatusIcons(unitMesh, unitData);
     
     this.units.set(id, unitMesh);
     console.log(`🛡️ Created unit: ${unitData.type} (${id}) with enhanced materials`);
@@ -103,10 +114,6 @@ export class UnitManager {
           { width: 0.4, height: 0.6, depth: 0.4 },
           this.scene
         );
-        material.diffuseColor = new Color3(0.9, 0.3, 0.3);
-        material.specularColor = new Color3(0.3, 0.1, 0.1);
-        material.ambientColor = new Color3(0.2, 0.05, 0.05);
-        material.emissiveColor = new Color3(0.1, 0, 0);
         break;
         
       case UnitType.ARCHER:
@@ -115,10 +122,6 @@ export class UnitManager {
           { height: 0.6, diameterTop: 0.2, diameterBottom: 0.4 },
           this.scene
         );
-        material.diffuseColor = new Color3(0.3, 0.7, 0.3);
-        material.specularColor = new Color3(0.1, 0.3, 0.1);
-        material.ambientColor = new Color3(0.05, 0.15, 0.05);
-        material.emissiveColor = new Color3(0, 0.1, 0);
         break;
         
       case UnitType.MAGE:
@@ -127,38 +130,60 @@ export class UnitManager {
           { diameter: 0.5 },
           this.scene
         );
-        material.diffuseColor = new Color3(0.3, 0.3, 0.9);
-        material.specularColor = new Color3(0.4, 0.4, 0.6);
-        material.ambientColor = new Color3(0.05, 0.05, 0.2);
-        material.emissiveColor = new Color3(0, 0, 0.2);
         material.specularPower = 64; // More reflective for magical units
         break;
         
-      case UnitType.CAVALRY:
+      case UnitType.CAVALRY: {
         mesh = MeshBuilder.CreateBox(
           'cavalry',
-          { width: 0.4, height: 0.5, depth: 0.7 },
+          { width: 0.35, height: 0.35, depth: 0.7 },
           this.scene
         );
-        material.diffuseColor = new Color3(0.7, 0.5, 0.3);
-        material.specularColor = new Color3(0.2, 0.15, 0.1);
-        material.ambientColor = new Color3(0.15, 0.1, 0.05);
-        material.emissiveColor = new Color3(0.05, 0.02, 0);
+        // Rider sitting on the horse's back
+        const rider = MeshBuilder.CreateCylinder(
+          'cavalry_rider',
+          { height: 0.35, diameterTop: 0.12, diameterBottom: 0.22 },
+          this.scene
+        );
+        rider.parent = mesh;
+        rider.position.y = 0.3;
+        rider.position.z = -0.05;
+        this.attachPart(rider, material);
         break;
+      }
         
-      case UnitType.SIEGE:
+      case UnitType.SIEGE: {
         mesh = MeshBuilder.CreateBox(
           'siege',
-          { width: 0.6, height: 0.4, depth: 0.8 },
+          { width: 0.6, height: 0.25, depth: 0.8 },
+          this.scene
+        );
+        // Catapult arm raised towards the front
+        const arm = MeshBuilder.CreateCylinder(
+          'siege_arm',
+          { height: 0.7, diameter: 0.08 },
           this.scene
         );
-        material.diffuseColor = new Color3(0.5, 0.5, 0.5);
-        material.specularColor = new Color3(0.3, 0.3, 0.3);
-        material.ambientColor = new Color3(0.1, 0.1, 0.1);
-        material.emissiveColor = new Color3(0.02, 0.02, 0.02);
+        arm.parent = mesh;
+        arm.position.y = 0.3;
+        arm.rotation.x = -Math.PI / 4;
+        this.attachPart(arm, material);
+        [-0.3, 0.3].forEach((z, index) => {
+          const axle = MeshBuilder.CreateCylinder(
+            `siege_wheels_${index}`,
+            { height: 0.7, diameter: 0.25 },
+            this.scene
+          );
+          axle.parent = mesh;
+          axle.position.y = -0.1;
+          axle.position.z = z;
+          axle.rotation.z = Math.PI / 2;
+          this.attachPart(axle, material);
+        });
         material.specularPower = 128; // Metallic siege units
         material.roughness = 0.3;
         break;
+      }
         
       default:
         mesh = MeshBuilder.CreateBox(
@@ -166,15 +191,93 @@ export class UnitManager {
           { width: 0.4, height: 0.5, depth: 0.4 },
           this.scene
         );
-        material.diffuseColor = new Color3(0.6, 0.6, 0.6);
-        material.specularColor = new Color3(0.2, 0.2, 0.2);
-        material.ambientColor = new Color3(0.1, 0.1, 0.1);
     }
     
+    // Colours come from the shared unit catalogue so balance and looks live in one place
+    const visual = getUnitDefinition(unitData.type)?.visual;
+    const baseColor = visual ? Color3.FromHexString(visual.color) : new Color3(0.6, 0.6, 0.6);
+    material.diffuseColor = baseColor;
+    material.specularColor = baseColor.scale(0.35);
+    material.ambientColor = baseColor.scale(0.2);
+    material.emissiveColor = visual ? Color3.FromHexString(visual.emissive) : Color3.Black();
+    
     mesh.material = material;
     return mesh;
   }
 
+  // Decorative child meshes share the unit's material; picking stays on the parent so clicks resolve to the unit
+  private attachPart(part: Mesh, material: StandardMaterial): void {
+    part.material = material;
+    part.isPickable = false;
+    part.receiveShadows = true;
+  }
+
+  // One gold chevron per rank, floating above the health bar
+  private updateRankInsignia(unit: UnitMesh, rank: number): void {
+    if (unit.rank === rank && (rank === 0 || unit.insignia)) return;
+
+    unit.insignia?.dispose();
+    unit.insignia = null;
+    unit.rank = rank;
+    if (rank <= 0) return;
+
+    const insignia = new Mesh(`insignia_${unit.id}`, this.scene);
+    insignia.parent = unit.mesh;
+    insignia.position.y = 0.95;
+    insignia.billboardMode = Mesh.BILLBOARDMODE_ALL;
+
+    const material = new StandardMaterial(`insigniaMat_${unit.id}`, this.scene);
+    material.diffuseColor = new Color3(1, 0.8, 0.2);
+    material.emissiveColor = new Color3(0.5, 0.4, 0.1);
+    material.backFaceCulling = false;
+
+    for (let i = 0; i < rank; i++) {
+      const chevron = MeshBuilder.CreatePlane(`chevron_${unit.id}_${i}`, { width: 0.3, height: 0.05 }, this.scene);
+      chevron.parent = insignia;
+      chevron.position.y = i * 0.08;
+      chevron.material = material;
+      chevron.isPickable = false;
+    }
+
+    unit.insignia = insignia;
+  }
+
+  // Row of effect icons above the insignia, rebuilt only when the effects change
+  private updateStatusIcons(unit: UnitMesh, unitData: UnitSchema): void {
+    const effects: ActiveStatusEffect[] = unitData.effects ? Array.from(unitData.effects) as ActiveStatusEffect[] : [];
+    const labels = effects.map(effect => {
+      const icon = getStatusEffect(effect.effectId)?.icon ?? '?';
+      return effect.stacks > 1 ? `${icon}${effect.stacks}` : icon;
+    });
+    const key = labels.join(' ');
+    if (key === unit.statusKey) return;
+
+    unit.statusIcons?.dispose(false, true);
+    unit.statusIcons = null;
+    unit.statusKey = key;
+    if (labels.length === 0) return;
+
+    const width = 0.25 * labels.length;
+    const plane = MeshBuilder.CreatePlane(`status_${unit.id}`, { width, height: 0.25 }, this.scene);
+    plane.parent = unit.mesh;
+    plane.position.y = 1.25;
+    plane.billboardMode = Mesh.BILLBOARDMODE_ALL;
+    plane.isPickable = false;
+
+    const texture = new DynamicTexture(`statusTex_${unit.id}`, { width: 64 * labels.length, height: 64 }, this.scene, false);
+    texture.hasAlpha = true;
+    texture.drawText(key, null, 48, '40px sans-serif', 'white', 'transparent', true);
+
+    const material = new StandardMaterial(`statusMat_${unit.id}`, this.scene);
+    material.diffuseTexture = texture;
+    material.emissiveColor = Color3.White();
+    material.useAlphaFromDiffuseTexture = true;
+    material.backFaceCulling = false;
+    plane.material = material;
+
+    unit.statusIcons = plane;
+  }
+
   private createHealthBar(parentMesh: Mesh): Mesh {
     const healthBar = MeshBuilder.CreatePlane(
       'healthBar',
@@ -203,11 +306,13 @@ export class UnitManager {
     // Update position with animation
     this.animateUnitMovement(
       unit.mesh,
-      new Vector3(unitData.position.x, 0.5, unitData.position.z)
+      new Vector3(unitData.position.x, 0.5, unitData.position.y)
     );
     
     // Update health bar
     this.updateHealthBar(unit, unitData);
+    this.updateRankInsignia(unit, unitData.rank ?? 0);
+    this.updateStatusIcons(unit, unitData);
     
     // Update unit data
     unit.schema = unitData;
@@ -235,25 +340,8 @@ export class UnitManager {
   }
 
   private restoreOriginalEmissive(material: StandardMaterial, unitType: UnitType): void {
-    switch (unitType) {
-      case UnitType.WARRIOR:
-        material.emissiveColor = new Color3(0.1, 0, 0);
-        break;
-      case UnitType.ARCHER:
-        material.emissiveColor = new Color3(0, 0.1, 0);
-        break;
-      case UnitType.MAGE:
-        material.emissiveColor = new Color3(0, 0, 0.2);
-        break;
-      case UnitType.CAVALRY:
-        material.emissiveColor = new Color3(0.05, 0.02, 0);
-        break;
-      case UnitType.SIEGE:
-        material.emissiveColor = new Color3(0.02, 0.02, 0.02);
-        break;
-      default:
-        material.emissiveColor = Color3.Black();
-    }
+    const visual = getUnitDefinition(unitType)?.visual;
+    material.emissiveColor = visual ? Color3.FromHexString(visual.emissive) : Color3.Black();
   }
 
   private updateHealthBar(unit: UnitMesh, unitData: UnitSchema): void {
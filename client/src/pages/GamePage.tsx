@@ -4,7 +4,30 @@ import { Client, Room } from 'colyseus.js';
 import { GameEngine } from '../game/babylon/GameEngine';
 import { useAuthStore } from '../stores/authStore';
 import { trpc } from '../providers/TrpcProvider';
-import { ClientMessageType } from '@tbs/shared';
+import {
+  BotDifficulty,
+  ClientMessageType,
+  ControlChangedPayload,
+  DisconnectPolicy,
+  GameEndedPayload,
+  MoveUndonePayload,
+  OrdersSubmittedPayload,
+  TurnResolvedPayload,
+  TurnMode,
+  TurnTimerPayload,
+  VisionUpdatePayload,
+  UnitRecruitedPayload,
+  PromotionResult,
+  RANKS,
+  StatusTick,
+  getStatusEffect,
+  getAbility,
+  getUnitDefinition,
+  getBotName,
+} from '@tbs/shared';
+
+// Close codes of a room left on purpose: a normal closure, or Colyseus' consented leave
+const INTENTIONAL_CLOSE_CODES = [1000, 4000];
 
 function GamePage() {
   const { gameId } = useParams<{ gameId: string }>();
@@ -71,6 +94,9 @@ function GamePage() {
   const [isGameReady, setIsGameReady] = useState(false);
   const [gameActivated, setGameActivated] = useState(false);
   const [showUI, setShowUI] = useState(true);
+  const [gameResult, setGameResult] = useState<GameEndedPayload | null>(null);
+  const [canUndo, setCanUndo] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
   
   const { data: gameData } = trpc.game.get.useQuery({ gameId: gameId! });
 
@@ -79,6 +105,31 @@ function GamePage() {
     setConnectionLog(prev => [...prev, `${new Date().toLocaleTimeString()}: ${message}`]);
   };
 
+  // Kept per tab, so a reload picks the same session back up while the server still holds it
+  const reconnectionTokenKey = `tbs:reconnection:${gameId}`;
+
+  const connectToRoom = async (client: Client): Promise<Room> => {
+    const reconnectionToken = sessionStorage.getItem(reconnectionTokenKey);
+    if (reconnectionToken) {
+      try {
+        const room = await client.reconnect(reconnectionToken);
+        addLog('🔄 Resumed previous session');
+        sessionStorage.setItem(reconnectionTokenKey, room.reconnectionToken);
+        return room;
+      } catch (error: any) {
+        addLog(`⚠️ Previous session is gone (${error.message}), joining again`);
+        sessionStorage.removeItem(reconnectionTokenKey);
+      }
+    }
+
+    const room = await client.joinOrCreate('game_room', {
+      gameId: gameId,
+      token: token, // Pass JWT token for authentication
+    });
+    sessionStorage.setItem(reconnectionTokenKey, room.reconnectionToken);
+    return room;
+  };
+
   const attemptReconnection = async (gameName?: string) => {
     try {
       const displayName = gameName || gameData?.map?.name || 'the game';
@@ -90,12 +141,10 @@ function GamePage() {
         throw new Error('No authentication token found');
       }
       
-      const room = await client.joinOrCreate('game_room', {
-        gameId: gameId,
-        token: token,
-      });
+      const room = await connectToRoom(client);
       
       roomRef.current = room;
+      setIsReconnecting(false);
       addLog('✅ Reconnected successfully!');
       addGameLog('system', `Reconnected to "${displayName}" successfully!`, 'System', {
         event: 'reconnection_success'
@@ -140,8 +189,9 @@ function GamePage() {
     });
 
     room.onMessage('player_joined', (message) => {
-      addLog(`👤 Player joined: ${message.username}`);
-      addGameLog('player_event', `${message.username} joined the game`, 'System', {
+      const status = message.reconnected ? 'reconnected to' : 'joined';
+      addLog(`👤 Player ${status}: ${message.username}`);
+      addGameLog('player_event', `${message.username} ${status} the game`, 'System', {
         playerId: message.playerId,
         event: 'join'
       });
@@ -156,20 +206,77 @@ function GamePage() {
       });
     });
 
+    room.onMessage('control_changed', (message: ControlChangedPayload) => {
+      const text = !message.takenOver
+        ? `${message.username} is back in control`
+        : message.policy === DisconnectPolicy.SKIP_TURN
+          ? `${message.username} is still away - their turns will be skipped`
+          : `${message.username} is still away - a bot plays for them`;
+      addLog(`🤖 ${text}`);
+      addGameLog('player_event', text, 'System', {
+        playerId: message.playerId,
+        event: message.takenOver ? 'taken_over' : 'control_returned'
+      });
+    });
+
     room.onMessage('game_started', (message) => {
-      addLog(`🎉 Game started! Current player: ${message.currentPlayer}`);
-      addGameLog('game_event', `Game started! Current player: ${message.currentPlayer}`, 'System', {
-        currentPlayer: message.currentPlayer,
+      addLog(`🎉 Game started! Phase: ${message.phase}`);
+      addGameLog('game_event', 'Game started! Deploy your army inside your zone.', 'System', {
+        phase: message.phase,
         event: 'game_start'
       });
     });
 
+    room.onMessage('phase_changed', (message) => {
+      addLog(`🔄 Phase changed to ${message.phase}`);
+      addGameLog('game_event', `Battle begins! ${message.currentPlayerName} moves first.`, 'System', {
+        phase: message.phase,
+        currentPlayer: message.currentPlayer,
+        event: 'phase_change'
+      });
+    });
+
+    room.onMessage('unit_recruited', (message: UnitRecruitedPayload) => {
+      addGameLog('action',
+        `🏰 ${message.queued ? 'Queued' : 'Recruited'} ${getUnitDefinition(message.unitType)?.name ?? message.unitType} (${message.goldRemaining} gold left)`,
+        user?.username || 'Player',
+        { action: 'recruit', success: true, unitId: message.unitId }
+      );
+    });
+
+    room.onMessage('vision_update', (message: VisionUpdatePayload) => {
+      engineRef.current?.updateVision(message);
+    });
+
     room.onMessage('turn_changed', (message) => {
       addLog(`🔄 Turn changed to player ${message.currentPlayer} (Turn ${message.turnNumber})`);
+      setCanUndo(false);
       
       const isMyTurn = message.currentPlayer === user?.id;
+      if (isMyTurn && message.income > 0) {
+        addGameLog('game_event', `💰 Collected ${message.income} gold from your holdings`, 'System', {
+          income: message.income,
+          event: 'income'
+        });
+      }
+      if (isMyTurn) {
+        (message.statusTicks || []).forEach((tick: StatusTick) => {
+          const status = getStatusEffect(tick.effectId);
+          if (!status) return;
+          addGameLog('game_event',
+            `${status.icon} ${status.name}` +
+              (tick.damage > 0 ? ` dealt ${tick.damage} damage` : '') +
+              (status.skipsTurn ? ' - a unit loses its turn' : '') +
+              (tick.expired ? ' (worn off)' : ''),
+            'System',
+            { unitId: tick.unitId, effectId: tick.effectId, event: 'status_tick' }
+          );
+        });
+      }
       addGameLog('game_event',
-        isMyTurn ? `It's your turn! (Turn ${message.turnNumber})` : `Turn ${message.turnNumber}: ${message.currentPlayerName}'s turn`,
+        message.simultaneous
+          ? `Turn ${message.turnNumber}: plan your orders`
+          : isMyTurn ? `It's your turn! (Turn ${message.turnNumber})` : `Turn ${message.turnNumber}: ${message.currentPlayerName}'s turn`,
         'System',
         {
           currentPlayer: message.currentPlayer,
@@ -229,6 +336,47 @@ function GamePage() {
       }
     });
 
+    room.onMessage('turn_timer_warning', (message: TurnTimerPayload) => {
+      const isMine = message.playerId === user?.id;
+      addLog(`⏰ ${message.username} has ${message.secondsRemaining}s left`);
+      if (isMine) {
+        addGameLog('system', `⏰ ${message.secondsRemaining} seconds left in your turn!`, 'System', {
+          secondsRemaining: message.secondsRemaining,
+          event: 'turn_timer_warning'
+        });
+      }
+    });
+
+    room.onMessage('turn_timed_out', (message: TurnTimerPayload) => {
+      const isMine = message.playerId === user?.id;
+      addLog(`⏰ Turn timed out for ${message.username}`);
+      addGameLog('game_event',
+        isMine ? '⏰ Your time ran out - turn ended automatically' : `⏰ ${message.username} ran out of time`,
+        'System',
+        {
+          playerId: message.playerId,
+          event: 'turn_timed_out'
+        }
+      );
+    });
+
+    room.onMessage('game_ended', (message: GameEndedPayload) => {
+      const outcome = message.winnerId === null
+        ? 'The game ended in a draw'
+        : message.winnerIds.includes(user?.id ?? '')
+          ? 'Victory! You won the game'
+          : message.winnerIds.length > 1
+            ? `Team ${(message.winningTeam ?? 0) + 1} won the game`
+            : `${message.winnerName} won the game`;
+      addLog(`🏆 Game ended (${message.reason}): ${outcome}`);
+      addGameLog('game_event', `${outcome} (${message.reason.replace(/_/g, ' ')})`, 'System', {
+        winnerId: message.winnerId,
+        reason: message.reason,
+        event: 'game_end'
+      });
+      setGameResult(message);
+    });
+
     room.onMessage('chat_message', (message) => {
       addLog(`💬 Chat: ${message.username}: ${message.message}`);
       addGameLog('chat', message.message, message.username, {
@@ -239,8 +387,65 @@ function GamePage() {
 
     room.onMessage('unit_action_result', (message) => {
       addLog(`🎯 Unit action result: ${message.type} - ${message.success ? 'Success' : 'Failed'}`);
+      if (typeof message.canUndo === 'boolean') setCanUndo(message.canUndo);
+      
+      (message.promotions || []).forEach((promotion: PromotionResult) => {
+        addGameLog('game_event',
+          `🎖️ A unit was promoted to ${RANKS[promotion.rank]?.name ?? `rank ${promotion.rank}`}!`,
+          'System',
+          { unitId: promotion.unitId, rank: promotion.rank, event: 'promotion' }
+        );
+      });
       
-      if (message.success) {
+      if (message.success && message.combat) {
+        const combat = message.combat;
+        addGameLog('action',
+          `⚔️ Attack dealt ${combat.damageDealt} damage` +
+            (combat.attackBonus > 0 ? ` (+${combat.attackBonus} bonus)` : '') +
+            (combat.terrainDefense > 0 ? ` (terrain blocked ${combat.terrainDefense})` : '') +
+            (combat.defenderKilled ? ' - target destroyed!' : '') +
+            (combat.counterDamage > 0 ? ` 🛡️ Counterattack dealt ${combat.counterDamage} damage` : '') +
+            (combat.attackerKilled ? ' - attacker destroyed!' : ''),
+          user?.username || 'Player',
+          {
+            action: message.type,
+            success: true,
+            unitId: message.unitId,
+            combat
+          }
+        );
+      } else if (message.success && message.capturedTile) {
+        addGameLog('action',
+          `🏰 Captured the tile at (${message.capturedTile.x}, ${message.capturedTile.y})`,
+          user?.username || 'Player',
+          {
+            action: message.type,
+            success: true,
+            unitId: message.unitId
+          }
+        );
+      } else if (message.success && message.ability) {
+        const ability = message.ability;
+        const totalDamage = ability.hits.reduce((sum: number, hit: any) => sum + hit.damage, 0);
+        const totalHealed = ability.hits.reduce((sum: number, hit: any) => sum + hit.healed, 0);
+        const kills = ability.hits.filter((hit: any) => hit.killed).length;
+        const affected = ability.hits.filter((hit: any) => hit.status).length;
+        const status = getStatusEffect(getAbility(ability.abilityId)?.status);
+        addGameLog('action',
+          `✨ ${getAbility(ability.abilityId)?.name ?? ability.abilityId} hit ${ability.hits.length} unit(s)` +
+            (totalDamage > 0 ? `, ${totalDamage} damage` : '') +
+            (totalHealed > 0 ? `, ${totalHealed} healed` : '') +
+            (kills > 0 ? ` - ${kills} destroyed!` : '') +
+            (status && affected > 0 ? ` ${status.icon} ${affected} ${status.name.toLowerCase()}` : ''),
+          user?.username || 'Player',
+          {
+            action: message.type,
+            success: true,
+            unitId: message.unitId,
+            ability
+          }
+        );
+      } else if (message.success) {
         addGameLog('action',
           `✅ ${message.type.charAt(0).toUpperCase() + message.type.slice(1)} successful`,
           user?.username || 'Player',
@@ -253,6 +458,40 @@ function GamePage() {
       }
     });
 
+    room.onMessage('move_undone', (message: MoveUndonePayload) => {
+      setCanUndo(message.canUndo);
+      addGameLog('action',
+        `↩️ Move undone (${message.actionPointsRemaining} AP left)`,
+        user?.username || 'Player',
+        { action: 'undo', success: true, unitId: message.unitId }
+      );
+    });
+
+    room.onMessage('orders_submitted', (message: OrdersSubmittedPayload) => {
+      addLog(`📨 ${message.username} submitted orders, waiting for: ${message.waitingFor.join(', ') || 'nobody'}`);
+      addGameLog('game_event',
+        message.waitingFor.length > 0
+          ? `📨 ${message.username} is ready - waiting for ${message.waitingFor.join(', ')}`
+          : `📨 ${message.username} is ready - resolving the turn`,
+        'System',
+        { playerId: message.playerId, event: 'orders_submitted' }
+      );
+    });
+
+    room.onMessage('turn_resolved', (message: TurnResolvedPayload) => {
+      addLog(`⚙️ Turn ${message.turnNumber} resolved: ${message.steps.length} orders seen`);
+      engineRef.current?.playResolvedTurn(message.steps);
+      message.steps
+        .filter(step => !step.success && step.playerId === user?.id)
+        .forEach(step => {
+          addGameLog('action',
+            `💨 ${step.action.type} order fizzled: ${step.error?.message || 'no longer possible'}`,
+            user?.username || 'Player',
+            { action: step.action.type, success: false, unitId: step.action.unitId }
+          );
+        });
+    });
+
     room.onMessage('action_failed', (message) => {
       addLog(`❌ Action failed: ${message.reason}`);
       addGameLog('action',
@@ -278,13 +517,15 @@ function GamePage() {
       addLog(`👋 Left room with code: ${code}`);
       
       // If disconnected unexpectedly, try to reconnect
-      if (code !== 1000) { // 1000 = normal closure
+      if (!INTENTIONAL_CLOSE_CODES.includes(code)) {
         const displayName = gameData?.map?.name;
+        setIsReconnecting(true);
         addLog(`🔄 Attempting to reconnect to "${displayName || 'the game'}"...`);
         setTimeout(() => {
           attemptReconnection(displayName);
         }, 2000);
       } else {
+        sessionStorage.removeItem(reconnectionTokenKey);
         navigate('/lobby');
       }
     });
@@ -370,10 +611,7 @@ function GamePage() {
         }
         
         addLog('🏠 Attempting to join/create room...');
-        const room = await client.joinOrCreate('game_room', {
-          gameId: gameId,
-          token: token, // Pass JWT token for authentication
-        });
+        const room = await connectToRoom(client);
         
         roomRef.current = room;
         addLog(`✅ Connected to game room: ${room.id}`);
@@ -594,6 +832,12 @@ function GamePage() {
     return 'Unknown';
   };
 
+  const formatTimeRemaining = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60);
+    const rest = seconds % 60;
+    return `${minutes}:${rest.toString().padStart(2, '0')}`;
+  };
+
   const getUnitTypeIcon = (unitType: string): string => {
     switch (unitType?.toLowerCase()) {
       case 'warrior':
@@ -722,13 +966,19 @@ function GamePage() {
     );
   }
 
+  // Everyone plans at once and submits their orders instead of ending a turn
+  const simultaneous = gameState?.turnMode === TurnMode.SIMULTANEOUS;
+
+  // Players whose connection dropped; the server holds their seat until they are back
+  const awayPlayers = Object.values(gameState?.players || {}).filter((player: any) => player.isActive === false);
+
   return (
     <div className="flex h-screen flex-col">
       {/* Always Visible Game Controls Bar */}
       <div className="bg-gray-800 px-4 py-2 flex justify-between items-center">
         <div className="flex gap-3">
           <button 
-            onClick={handleEndTurn} 
+            onClick={simultaneous ? () => engineRef.current?.submitOrders() : handleEndTurn} 
             disabled={!gameActivated || !engineRef.current?.isMyTurn()}
             className={`px-4 py-1 rounded text-sm font-semibold transition-colors ${
               gameActivated && engineRef.current?.isMyTurn()
@@ -736,14 +986,33 @@ function GamePage() {
                 : 'bg-gray-500 cursor-not-allowed text-gray-300'
             }`}
           >
-            ⏭️ End Turn
+            {simultaneous ? `📨 Submit Orders (${engineRef.current?.getPlannedOrderCount() ?? 0})` : '⏭️ End Turn'}
+          </button>
+          <button 
+            onClick={() => engineRef.current?.undoLastMove()} 
+            disabled={!gameActivated || !canUndo || !engineRef.current?.isMyTurn()}
+            title="Undo last move (Ctrl+Z)"
+            className={`px-4 py-1 rounded text-sm font-semibold transition-colors ${
+              gameActivated && canUndo && engineRef.current?.isMyTurn()
+                ? 'bg-blue-600 hover:bg-blue-700 text-white' 
+                : 'bg-gray-500 cursor-not-allowed text-gray-300'
+            }`}
+          >
+            ↩️ Undo
           </button>
         </div>
         
         {/* Compact status info */}
         <div className="text-white text-xs">
           {gameActivated && gameState && (
-            <span>{gameState.status} | T:{gameState.turnNumber}</span>
+            <span>
+              {gameState.status} | T:{gameState.turnNumber}
+              {gameState.turnTimeRemaining > 0 && (
+                <span className={gameState.turnTimeRemaining <= 10 ? 'text-red-400 font-bold' : ''}>
+                  {' '}| ⏱️ {formatTimeRemaining(gameState.turnTimeRemaining)}
+                </span>
+              )}
+            </span>
           )}
           {!gameActivated && (
             <span>{isGameReady ? 'Ready' : `${loadingProgress}%`}</span>
@@ -751,6 +1020,19 @@ function GamePage() {
         </div>
       </div>
       
+      {(isReconnecting || awayPlayers.length > 0) && (
+        <div className="bg-yellow-700 px-4 py-1 flex gap-4 text-xs text-white">
+          {isReconnecting && <span>🔄 Connection lost - reconnecting…</span>}
+          {awayPlayers.length > 0 && (
+            <span>
+              ⏳ Away: {awayPlayers
+                .map((player: any) => player.botControlled ? `${player.username} (bot playing)` : player.username)
+                .join(', ')}
+            </span>
+          )}
+        </div>
+      )}
+      
       {/* Main Game Area */}
       <div className="flex flex-1">
         {/* Game Canvas */}
@@ -811,6 +1093,53 @@ function GamePage() {
             </div>
           )}
           
+          {/* Game Over Overlay */}
+          {gameResult && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-70 z-10">
+              <div className="card max-w-md w-full text-white">
+                <h2 className="text-2xl font-bold mb-2">
+                  {gameResult.winnerId === null
+                    ? '🤝 Draw'
+                    : gameResult.winnerIds.includes(user?.id ?? '')
+                      ? '🏆 Victory!'
+                      : gameResult.winnerIds.length > 1
+                        ? `💀 Team ${(gameResult.winningTeam ?? 0) + 1} wins`
+                        : `💀 ${gameResult.winnerName} wins`}
+                </h2>
+                <p className="text-sm text-gray-400 mb-4">
+                  {gameResult.reason.replace(/_/g, ' ')} after turn {gameResult.turnNumber}
+                </p>
+                <div className="space-y-2 mb-4">
+                  {gameResult.standings.map((standing) => (
+                    <div
+                      key={standing.playerId}
+                      className={`flex justify-between p-2 rounded ${
+                        standing.isWinner ? 'bg-yellow-900 bg-opacity-50' : 'bg-gray-800'
+                      }`}
+                    >
+                      <span>
+                        #{standing.rank} {standing.username}
+                        {standing.playerId === user?.id && <span className="text-xs text-blue-400 ml-1">(You)</span>}
+                        {standing.eliminated && <span className="text-xs text-red-400 ml-1">(left)</span>}
+                      </span>
+                      <span className="text-sm text-gray-300">
+                        {standing.unitsRemaining} units | {standing.score} pts
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={() => navigate(`/game/${gameId}/replay`)} className="btn btn-secondary flex-1">
+                    🎬 Watch Replay
+                  </button>
+                  <button onClick={() => navigate('/lobby')} className="btn btn-primary flex-1">
+                    Back to Lobby
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* UI Toggle Button */}
           <div className="absolute top-4 left-4">
             <button
@@ -857,6 +1186,9 @@ function GamePage() {
                       <span>Phase: <strong>{gameState.phase}</strong></span>
                       <span>Current: <strong>{getCurrentPlayerName(gameState)}</strong></span>
                       <span>Players: <strong>{Object.keys(gameState.players || {}).length}</strong></span>
+                      {gameState.spectatorCount > 0 && (
+                        <span>👁️ Watching: <strong>{gameState.spectatorCount}</strong></span>
+                      )}
                       <span>Units: <strong>{gameState.units ? gameState.units.size || Array.from(gameState.units.values()).length : 0}</strong></span>
                     </div>
                   )}
@@ -951,14 +1283,30 @@ function GamePage() {
                             AP: {player.actionPoints}
                           </div>
                         )}
+                        {player.gold !== undefined && (
+                          <div className="text-xs text-yellow-400">
+                            Gold: {player.gold}
+                          </div>
+                        )}
+                        {player.mana !== undefined && (
+                          <div className="text-xs text-purple-400">
+                            MP: {player.mana}
+                          </div>
+                        )}
                       </div>
                     </div>
                     
                     <div className="flex items-center justify-between text-xs">
                       <span className={`${
-                        player.isActive !== false ? 'text-green-400' : 'text-red-400'
+                        player.isBot || player.botControlled
+                          ? 'text-purple-400'
+                          : player.isActive !== false ? 'text-green-400' : 'text-red-400'
                       }`}>
-                        {player.isActive !== false ? '🟢 Online' : '🔴 Offline'}
+                        {player.isBot
+                          ? '🤖 Bot'
+                          : player.botControlled
+                            ? '🤖 Bot playing'
+                            : player.isActive !== false ? '🟢 Online' : '🔴 Offline'}
                       </span>
                       <span className={`${
                         player.isReady ? 'text-green-400' : 'text-gray-400'
@@ -976,7 +1324,9 @@ function GamePage() {
                   className="flex items-center justify-between p-2 bg-gray-700 rounded opacity-50"
                   style={{ borderLeft: `4px solid ${player.color}` }}
                 >
-                  <span>{player.user.username} (Database)</span>
+                  <span>
+                    {player.user?.username ?? getBotName(player.botDifficulty as BotDifficulty, player.playerIndex)} (Database)
+                  </span>
                   <span className="text-sm text-gray-500">
                     Connecting...
                   </span>
@@ -1014,7 +1364,7 @@ function GamePage() {
                           )}
                         </div>
                         <div className="text-xs text-gray-400">
-                          ({unit.position.x}, {unit.position.z})
+                          ({unit.position.x}, {unit.position.y})
                         </div>
                       </div>
                       <div className="flex items-center justify-between mt-1">
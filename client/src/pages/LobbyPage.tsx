@@ -2,14 +2,34 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { trpc } from '../providers/TrpcProvider';
 import { useAuthStore } from '../stores/authStore';
+import {
+  BotDifficulty,
+  TeamFormat,
+  getBotName,
+  getTeamCount,
+  getTeamFormat,
+  getTeamGamePlayers,
+  isTeamGame,
+  TEAM_SIZES,
+} from '@tbs/shared';
+
+const TEAM_FORMAT_LABELS: Record<TeamFormat, string> = {
+  [TeamFormat.FREE_FOR_ALL]: 'Free-for-all',
+  [TeamFormat.TWO_VS_TWO]: '2 vs 2',
+  [TeamFormat.THREE_VS_THREE]: '3 vs 3',
+  [TeamFormat.FOUR_VS_FOUR]: '4 vs 4',
+};
 
 function LobbyPage() {
   const navigate = useNavigate();
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [selectedMapId, setSelectedMapId] = useState('');
+  const [teamFormat, setTeamFormat] = useState<TeamFormat>(TeamFormat.FREE_FOR_ALL);
   const user = useAuthStore((state) => state.user);
 
+  const utils = trpc.useContext();
   const { data: games } = trpc.game.list.useQuery();
+  const { data: liveGames } = trpc.game.listLive.useQuery();
   const { data: maps } = trpc.map.list.useQuery();
 
   const createGameMutation = trpc.game.create.useMutation({
@@ -39,6 +59,24 @@ function LobbyPage() {
     },
   });
 
+  const setTeamMutation = trpc.game.setTeam.useMutation({
+    onSuccess: () => {
+      utils.game.list.invalidate();
+    },
+    onError: (error) => {
+      console.error('❌ Failed to switch team:', error);
+    },
+  });
+
+  const addBotMutation = trpc.game.addBot.useMutation({
+    onSuccess: () => {
+      utils.game.list.invalidate();
+    },
+    onError: (error) => {
+      console.error('❌ Failed to add bot:', error);
+    },
+  });
+
   const handleCreateGame = () => {
     if (!selectedMapId) return;
     
@@ -46,9 +84,10 @@ function LobbyPage() {
     createGameMutation.mutate({
       mapId: selectedMapId,
       settings: {
-        maxPlayers: 4,
+        maxPlayers: isTeamGame(teamFormat) ? getTeamGamePlayers(teamFormat) : 4,
         turnTimeLimit: 300,
         isPrivate: false,
+        teamFormat,
       },
     });
   };
@@ -86,26 +125,69 @@ function LobbyPage() {
         {games?.map((game) => {
           const isUserInGame = game.players.some(p => p.userId === user?.id);
           const settings = game.settings as any;
+          const format = getTeamFormat(settings.teamFormat);
+          const myTeam = game.players.find(p => p.userId === user?.id)?.team;
+          const teams = isTeamGame(format)
+            ? Array.from({ length: getTeamCount(format, settings.maxPlayers) }, (_, team) => team)
+            : [null];
           
           return (
             <div key={game.id} className="card">
               <h3 className="text-xl font-bold mb-2">{game.map?.name || 'Unknown Map'}</h3>
               <p className="text-gray-400 mb-4">
-                Players: {game.players.length}/{settings.maxPlayers}
+                {TEAM_FORMAT_LABELS[format]} | Players: {game.players.length}/{settings.maxPlayers}
               </p>
-              <div className="flex flex-wrap gap-2 mb-4">
-                {game.players.map((player) => (
-                  <span
-                    key={player.id}
-                    className={`px-2 py-1 rounded text-sm ${
-                      player.userId === user?.id ? 'bg-game-accent text-white' : 'bg-gray-700'
-                    }`}
-                    style={{ borderColor: player.color, borderWidth: '2px' }}
-                  >
-                    {player.user.username}
-                  </span>
-                ))}
-              </div>
+              {teams.map((team) => {
+                const members = game.players.filter(p => team === null || p.team === team);
+                const canSwitch = team !== null && isUserInGame && myTeam !== team &&
+                  members.length < TEAM_SIZES[format];
+                
+                return (
+                  <div key={team ?? 'all'} className="mb-4">
+                    {team !== null && (
+                      <div className="flex justify-between items-center mb-1">
+                        <span className="text-sm font-semibold">Team {team + 1}</span>
+                        {canSwitch && (
+                          <button
+                            onClick={() => setTeamMutation.mutate({ gameId: game.id, team })}
+                            disabled={setTeamMutation.isLoading}
+                            className="text-xs text-blue-400 hover:underline"
+                          >
+                            Switch here
+                          </button>
+                        )}
+                      </div>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                      {members.map((player) => (
+                        <span
+                          key={player.id}
+                          className={`px-2 py-1 rounded text-sm ${
+                            player.userId === user?.id ? 'bg-game-accent text-white' : 'bg-gray-700'
+                          }`}
+                          style={{ borderColor: player.color, borderWidth: '2px' }}
+                        >
+                          {player.user?.username ?? `🤖 ${getBotName(player.botDifficulty as BotDifficulty, player.playerIndex)}`}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+              {isUserInGame && game.players.length < settings.maxPlayers && (
+                <div className="flex gap-2 mb-2">
+                  {Object.values(BotDifficulty).map((difficulty) => (
+                    <button
+                      key={difficulty}
+                      onClick={() => addBotMutation.mutate({ gameId: game.id, difficulty })}
+                      disabled={addBotMutation.isLoading}
+                      className="btn btn-secondary flex-1 text-xs"
+                    >
+                      + {difficulty} bot
+                    </button>
+                  ))}
+                </div>
+              )}
               <button
                 onClick={() => handleJoinGame(game.id)}
                 disabled={joinGameMutation.isLoading}
@@ -126,6 +208,45 @@ function LobbyPage() {
         </div>
       )}
 
+      {/* Running games anyone can watch */}
+      {liveGames && liveGames.length > 0 && (
+        <>
+          <h2 className="text-2xl font-bold mt-8 mb-4">Live Games</h2>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {liveGames.map((game) => {
+              const isUserInGame = game.players.some(p => p.userId === user?.id);
+              const format = getTeamFormat((game.settings as any).teamFormat);
+
+              return (
+                <div key={game.id} className="card">
+                  <h3 className="text-xl font-bold mb-2">{game.map?.name || 'Unknown Map'}</h3>
+                  <p className="text-gray-400 mb-4">
+                    {TEAM_FORMAT_LABELS[format]} | Turn {game.turnNumber}
+                  </p>
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    {game.players.map((player) => (
+                      <span
+                        key={player.id}
+                        className="px-2 py-1 rounded text-sm bg-gray-700"
+                        style={{ borderColor: player.color, borderWidth: '2px' }}
+                      >
+                        {player.user?.username ?? `🤖 ${getBotName(player.botDifficulty as BotDifficulty, player.playerIndex)}`}
+                      </span>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => navigate(isUserInGame ? `/game/${game.id}` : `/game/${game.id}/spectate`)}
+                    className="btn btn-secondary w-full"
+                  >
+                    {isUserInGame ? 'Continue Game' : '👁️ Watch'}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+
       {/* Create Game Modal */}
       {showCreateModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -148,6 +269,21 @@ function LobbyPage() {
               </select>
             </div>
 
+            <div className="mb-4">
+              <label className="block text-sm font-medium mb-2">Teams</label>
+              <select
+                value={teamFormat}
+                onChange={(e) => setTeamFormat(e.target.value as TeamFormat)}
+                className="input w-full"
+              >
+                {Object.values(TeamFormat).map((format) => (
+                  <option key={format} value={format}>
+                    {TEAM_FORMAT_LABELS[format]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div className="flex gap-2">
               <button
                 onClick={handleCreateGame}
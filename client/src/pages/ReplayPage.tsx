@@ -0,0 +1,169 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { GameEngine } from '../game/babylon/GameEngine';
+import { trpc } from '../providers/TrpcProvider';
+import {
+  BotDifficulty,
+  GameActionEntry,
+  GameActionPayloads,
+  GameActionType,
+  buildReplayFrames,
+  getBotName,
+} from '@tbs/shared';
+
+function ReplayPage() {
+  const { gameId } = useParams<{ gameId: string }>();
+  const navigate = useNavigate();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const engineRef = useRef<GameEngine | null>(null);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [engineReady, setEngineReady] = useState(false);
+
+  const { data, error, isLoading } = trpc.game.replay.useQuery({ gameId: gameId! });
+
+  const actions = useMemo(() => (data?.actions ?? []) as GameActionEntry[], [data]);
+  const frames = useMemo(() => buildReplayFrames(actions), [actions]);
+
+  const usernames = useMemo(() => {
+    const names: Record<string, string> = {};
+    data?.game.players.forEach(player => {
+      // Bots play under their seat's id
+      names[player.userId ?? player.id] =
+        player.user?.username ?? getBotName(player.botDifficulty as BotDifficulty, player.playerIndex);
+    });
+    return names;
+  }, [data]);
+
+  // Build the board once the log has arrived
+  useEffect(() => {
+    if (!data || !canvasRef.current || frames.length === 0) return;
+
+    const colors: Record<string, string> = {};
+    data.game.players.forEach(player => {
+      colors[player.userId ?? player.id] = player.color;
+    });
+
+    const engine = new GameEngine(canvasRef.current);
+    engineRef.current = engine;
+    let disposed = false;
+
+    engine.initialize().then(() => {
+      if (disposed) return;
+      engine.loadReplay(frames, colors);
+      setFrameIndex(0);
+      setEngineReady(true);
+    }).catch(err => {
+      console.error('❌ Failed to start replay viewer:', err);
+    });
+
+    return () => {
+      disposed = true;
+      engineRef.current = null;
+      engine.dispose();
+    };
+  }, [data, frames]);
+
+  const step = (delta: number) => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    engine.stepReplay(delta);
+    setFrameIndex(engine.getReplayPosition().index);
+  };
+
+  const frame = frames[frameIndex];
+
+  // Chat and the result are shown alongside the turn they happened in
+  const turnLog = actions.filter(action =>
+    frame &&
+    action.turnNumber === frame.turnNumber &&
+    (action.type === GameActionType.CHAT || action.type === GameActionType.GAME_ENDED)
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-game-accent"></div>
+      </div>
+    );
+  }
+
+  if (error || frames.length === 0) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="card max-w-md">
+          <h2 className="text-2xl font-bold text-red-500 mb-4">Replay unavailable</h2>
+          <p className="mb-4">{error?.message || 'This game has no recorded battle.'}</p>
+          <button onClick={() => navigate('/lobby')} className="btn btn-secondary">
+            Back to Lobby
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-screen flex-col">
+      <div className="bg-gray-800 px-4 py-2 flex justify-between items-center text-white">
+        <div className="flex gap-3">
+          <button
+            onClick={() => step(-1)}
+            disabled={!engineReady || frameIndex === 0}
+            className="btn btn-secondary text-sm"
+          >
+            ◀ Previous turn
+          </button>
+          <button
+            onClick={() => step(1)}
+            disabled={!engineReady || frameIndex >= frames.length - 1}
+            className="btn btn-secondary text-sm"
+          >
+            Next turn ▶
+          </button>
+        </div>
+
+        <div className="text-xs">
+          🎬 Replay | T:{frame?.turnNumber}
+          {frame?.playerId && <span> | {usernames[frame.playerId] || 'Unknown'}'s turn</span>}
+          <span className="text-gray-400"> ({frameIndex + 1}/{frames.length})</span>
+        </div>
+
+        <button onClick={() => navigate('/lobby')} className="btn btn-primary text-sm">
+          Back to Lobby
+        </button>
+      </div>
+
+      <div className="flex flex-1">
+        <div className="flex-1 flex items-center justify-center bg-gray-900">
+          <canvas
+            ref={canvasRef}
+            className="max-w-full max-h-full"
+            style={{ width: '800px', height: '600px', backgroundColor: '#111827' }}
+          />
+        </div>
+
+        <div className="w-72 bg-gray-800 p-4 text-white overflow-y-auto">
+          <h3 className="font-bold mb-2">Turn {frame?.turnNumber}</h3>
+          {turnLog.length === 0 && <p className="text-xs text-gray-400">Nothing was said this turn.</p>}
+          {turnLog.map(action => (
+            <div key={action.sequence} className="text-xs mb-1">
+              {action.type === GameActionType.CHAT ? (
+                <span>
+                  <span className="text-blue-400">
+                    {(action.payload as GameActionPayloads[GameActionType.CHAT]).username}:
+                  </span>{' '}
+                  {(action.payload as GameActionPayloads[GameActionType.CHAT]).message}
+                </span>
+              ) : (
+                <span className="text-yellow-400">
+                  🏆 Game over: {(action.payload as GameActionPayloads[GameActionType.GAME_ENDED]).reason.replace(/_/g, ' ')}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ReplayPage;
@@ -0,0 +1,219 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Client, Room } from 'colyseus.js';
+import { GameEngine } from '../game/babylon/GameEngine';
+import { useAuthStore } from '../stores/authStore';
+import { trpc } from '../providers/TrpcProvider';
+import {
+  BotDifficulty,
+  ClientMessageType,
+  GameEndedPayload,
+  SpectatePlayerPayload,
+  SpectatorUpdatePayload,
+  getBotName,
+} from '@tbs/shared';
+
+interface ChatEntry {
+  id: string;
+  username: string;
+  message: string;
+  spectator: boolean;
+}
+
+function SpectatePage() {
+  const { gameId } = useParams<{ gameId: string }>();
+  const navigate = useNavigate();
+  const token = useAuthStore((state) => state.token);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const engineRef = useRef<GameEngine | null>(null);
+  const roomRef = useRef<Room | null>(null);
+  const [view, setView] = useState<SpectatorUpdatePayload | null>(null);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+  const [chat, setChat] = useState<ChatEntry[]>([]);
+  const [chatInput, setChatInput] = useState('');
+
+  const { data: game, error, isLoading } = trpc.game.get.useQuery({ gameId: gameId! });
+
+  // Players act under their user id, bots under their seat's id
+  const players = useMemo(() => (game?.players ?? []).map(player => ({
+    id: player.userId ?? player.id,
+    username: player.user?.username ?? getBotName(player.botDifficulty as BotDifficulty, player.playerIndex),
+    color: player.color,
+  })), [game]);
+
+  const colors = useMemo(() => {
+    const byId: Record<string, string> = {};
+    players.forEach(player => {
+      byId[player.id] = player.color;
+    });
+    return byId;
+  }, [players]);
+
+  const colorsRef = useRef(colors);
+  colorsRef.current = colors;
+
+  // Join read-only once the game is known to be watchable
+  useEffect(() => {
+    if (!game || !canvasRef.current || !token) return;
+
+    const engine = new GameEngine(canvasRef.current);
+    engineRef.current = engine;
+    let disposed = false;
+
+    const connect = async () => {
+      await engine.initialize();
+      if (disposed) return;
+
+      const client = new Client('ws://localhost:2567');
+      const room = await client.joinOrCreate('game_room', { gameId, token, spectate: true });
+      if (disposed) {
+        room.leave();
+        return;
+      }
+      roomRef.current = room;
+
+      room.onMessage('spectator_update', (message: SpectatorUpdatePayload) => {
+        engineRef.current?.showSpectatorView(message, colorsRef.current);
+        setView(message);
+      });
+
+      room.onMessage('chat_message', (message) => {
+        setChat(prev => [...prev.slice(-99), {
+          id: `${message.timestamp}-${Math.random().toString(36)}`,
+          username: message.username,
+          message: message.message,
+          spectator: !!message.spectator,
+        }]);
+      });
+
+      room.onMessage('game_ended', (message: GameEndedPayload) => {
+        setResult(message.winnerId === null ? 'The game ended in a draw' : `${message.winnerName} won the game`);
+      });
+
+      room.onMessage('error', (message) => {
+        setConnectionError(message.message);
+      });
+
+      // The room has nothing else to tell spectators
+      room.onMessage('*', () => {});
+    };
+
+    connect().catch(err => {
+      console.error('❌ Failed to join as spectator:', err);
+      setConnectionError(err.message);
+    });
+
+    return () => {
+      disposed = true;
+      roomRef.current?.leave();
+      roomRef.current = null;
+      engineRef.current = null;
+      engine.dispose();
+    };
+  }, [game?.id, token]);
+
+  const followPlayer = (playerId: string | null) => {
+    const payload: SpectatePlayerPayload = { playerId };
+    roomRef.current?.send(ClientMessageType.SPECTATE_PLAYER, payload);
+  };
+
+  const sendChatMessage = () => {
+    if (!chatInput.trim() || !roomRef.current) return;
+    roomRef.current.send('chat_message', chatInput);
+    setChatInput('');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-game-accent"></div>
+      </div>
+    );
+  }
+
+  if (error || connectionError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="card max-w-md">
+          <h2 className="text-2xl font-bold text-red-500 mb-4">Cannot watch this game</h2>
+          <p className="mb-4">{error?.message || connectionError}</p>
+          <button onClick={() => navigate('/lobby')} className="btn btn-secondary">
+            Back to Lobby
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const currentPlayer = players.find(player => player.id === view?.currentPlayerId);
+
+  return (
+    <div className="flex h-screen flex-col">
+      <div className="bg-gray-800 px-4 py-2 flex justify-between items-center text-white">
+        <select
+          value={view?.followingPlayerId ?? ''}
+          onChange={(e) => followPlayer(e.target.value || null)}
+          className="input text-sm"
+        >
+          <option value="">🗺️ Full map</option>
+          {players.map(player => (
+            <option key={player.id} value={player.id}>
+              👁️ {player.username}'s vision
+            </option>
+          ))}
+        </select>
+
+        <div className="text-xs">
+          👁️ Spectating{view && <span> | T:{view.turnNumber}</span>}
+          {currentPlayer && <span> | {currentPlayer.username}'s turn</span>}
+          {!!view?.delay && <span className="text-gray-400"> ({view.delay}s delay)</span>}
+          {result && <span className="text-yellow-400"> | 🏆 {result}</span>}
+        </div>
+
+        <button onClick={() => navigate('/lobby')} className="btn btn-primary text-sm">
+          Back to Lobby
+        </button>
+      </div>
+
+      <div className="flex flex-1">
+        <div className="flex-1 flex items-center justify-center bg-gray-900">
+          <canvas
+            ref={canvasRef}
+            className="max-w-full max-h-full"
+            style={{ width: '800px', height: '600px', backgroundColor: '#111827' }}
+          />
+        </div>
+
+        <div className="w-72 bg-gray-800 p-4 text-white flex flex-col">
+          <h3 className="font-bold mb-2">Chat</h3>
+          <div className="flex-1 overflow-y-auto mb-2">
+            {chat.length === 0 && <p className="text-xs text-gray-400">Nothing said yet.</p>}
+            {chat.map(entry => (
+              <div key={entry.id} className="text-xs mb-1">
+                <span className={entry.spectator ? 'text-purple-400' : 'text-blue-400'}>
+                  {entry.spectator ? '👁️ ' : ''}{entry.username}:
+                </span>{' '}
+                {entry.message}
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={chatInput}
+              onChange={(e) => setChatInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && sendChatMessage()}
+              placeholder="Talk to other spectators..."
+              className="input flex-1 text-xs"
+            />
+            <button onClick={sendChatMessage} className="btn btn-secondary text-xs">
+              Send
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SpectatePage;
@@ -1,4 +1,4 @@
-import { pgTable, serial, text, timestamp, boolean, integer, jsonb, uuid, varchar } from 'drizzle-orm/pg-core';
+import { pgTable, serial, text, timestamp, boolean, integer, jsonb, uuid, varchar, unique } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 export const users = pgTable('users', {
@@ -43,18 +43,50 @@ export const activeGameSessions = pgTable('active_game_sessions', {
 export const gamePlayers = pgTable('game_players', {
   id: uuid('id').defaultRandom().primaryKey(),
   gameId: uuid('game_id').notNull().references(() => games.id),
-  userId: uuid('user_id').notNull().references(() => users.id),
+  userId: uuid('user_id').references(() => users.id), // null for bot seats
+  botDifficulty: varchar('bot_difficulty', { length: 10 }), // Set while a bot holds the seat
   playerIndex: integer('player_index').notNull(),
   color: varchar('color', { length: 7 }).notNull(),
+  team: integer('team').notNull().default(0), // Same number = allies; everyone differs in free-for-all
   isReady: boolean('is_ready').notNull().default(false),
   isActive: boolean('is_active').notNull().default(true),
   resources: jsonb('resources').notNull().default({ gold: 1000, mana: 100, actionPoints: 3 }),
 });
 
+export const gameActions = pgTable('game_actions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  gameId: uuid('game_id').notNull().references(() => games.id, { onDelete: 'cascade' }),
+  sequence: integer('sequence').notNull(),
+  turnNumber: integer('turn_number').notNull(),
+  playerId: uuid('player_id'),
+  type: varchar('type', { length: 30 }).notNull(),
+  payload: jsonb('payload').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  gameSequenceUnique: unique('game_actions_game_id_sequence_unique').on(table.gameId, table.sequence),
+}));
+
+export const maps = pgTable('maps', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description'),
+  width: integer('width').notNull(),
+  height: integer('height').notNull(),
+  tileData: jsonb('tile_data').notNull(),
+  spawnPoints: jsonb('spawn_points').notNull(),
+  maxPlayers: integer('max_players').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Relations
-export const gamesRelations = relations(games, ({ many }) => ({
+export const gamesRelations = relations(games, ({ many, one }) => ({
   players: many(gamePlayers),
   activeSessions: many(activeGameSessions),
+  actions: many(gameActions),
+  map: one(maps, {
+    fields: [games.mapId],
+    references: [maps.id],
+  }),
 }));
 
 export const activeGameSessionsRelations = relations(activeGameSessions, ({ one }) => ({
@@ -77,4 +109,11 @@ export const gamePlayersRelations = relations(gamePlayers, ({ one }) => ({
     fields: [gamePlayers.userId],
     references: [users.id],
   }),
+}));
+
+export const gameActionsRelations = relations(gameActions, ({ one }) => ({
+  game: one(games, {
+    fields: [gameActions.gameId],
+    references: [games.id],
+  }),
 }));
\ No newline at end of file
@@ -6,6 +6,10 @@ import express from 'express';
 import cors from 'cors';
 import { GameRoom } from './rooms/GameRoom';
 import { env } from './config/env';
+import { assertValidUnitCatalogue } from '@tbs/shared';
+
+// Refuse to start with broken unit balance data
+assertValidUnitCatalogue();
 
 const port = env.GAME_SERVER_PORT;
 const app = express();
@@ -1,6 +1,6 @@
-import { Room, Client } from 'colyseus';
+import { Room, Client, Delayed } from 'colyseus';
 import jwt from 'jsonwebtoken';
-import { GameState, Player, Unit, Position as ColyseusPosition } from '../schemas/GameState';
+import { GameState, Player, Unit, Tile, StatusEffect, Position as ColyseusPosition } from '../schemas/GameState';
 import { 
   ClientMessageType, 
   UnitAction,
@@ -8,12 +8,73 @@ import {
   GamePhase,
   UnitType,
   ServerMessageType,
-  Position
+  TileType,
+  UnitActionPayload,
+  DeployUnitPayload,
+  RecruitUnitPayload,
+  UnitRecruitedPayload,
+  ChoosePerkPayload,
+  SubmitOrdersPayload,
+  SpectatePlayerPayload,
+  SpectatorUpdatePayload,
+  ControlChangedPayload,
+  ResolvedOrderView,
+  PromotionResult,
+  VisionUpdatePayload,
+  UnitView,
+  ErrorCode,
+  ErrorPayload,
+  CombatResult,
+  AbilityResult,
+  GameSettings,
+  VictoryCondition,
+  TurnTimerMode,
+  TurnMode,
+  TeamFormat,
+  BotDifficulty,
+  DisconnectPolicy,
+  ACTION_POINTS_PER_TURN,
+  getUnitDefinition,
+  getRecruitCost,
+  isIncomeTile,
+  ActiveStatusEffect,
+  StatusTick,
+  EngineAction,
+  EngineEvent,
+  PlayerVision,
+  captureTile,
+  getPlayerVision,
+  EnginePlayer,
+  EngineResult,
+  EngineState,
+  EngineUnit,
+  GameActionPayloads,
+  GameActionType,
+  GridPoint,
+  ResolvedOrder,
+  applyAction,
+  areAllies,
+  assignTeam,
+  chooseBotAction,
+  getAvailablePerks,
+  getBotName,
+  getBotView,
+  getSpectatorView,
+  getTeamColor,
+  getTeamFormat,
+  getTurnPriority,
+  getVisibleUnitIds,
+  isInBounds,
+  planBotTurn,
+  resolveSimultaneousTurn,
+  seedFromString,
 } from '@tbs/shared';
 import { env } from '../config/env';
 import { db } from '../db/client';
-import { games, activeGameSessions } from '../db/schema';
-import { eq, and } from 'drizzle-orm';
+import { games, gamePlayers, activeGameSessions, gameActions } from '../db/schema';
+import { eq, and, max, isNotNull } from 'drizzle-orm';
+import { buildTileGrid } from '../rules/terrain';
+import { VictoryOutcome, VictoryPlayer, DEFAULT_VICTORY_CONDITIONS, checkVictory } from '../rules/victory';
 
 interface JoinOptions {
   gameId: string;
@@ -21,6 +82,7 @@ interface JoinOptions {
   userId?: string;
   username?: string;
   playerData?: any;
+  spectate?: boolean; // Watch the game read-only instead of taking a seat
 }
 
 interface CreateOptions {
@@ -30,13 +92,105 @@ interface CreateOptions {
   maxPlayers?: number;
 }
 
+// Someone watching the game without a seat in it
+interface Spectator {
+  userId: string;
+  username: string;
+  followingPlayerId: string | null; // Whose vision they watch through, null for the full map
+  sentFrame: number; // Id of the last frame they were sent, 0 for none
+}
+
+// A board captured for spectators, held back until the spectator delay has passed
+interface SpectatorFrame {
+  id: number;
+  capturedAt: number;
+  state: EngineState;
+  turnNumber: number;
+  currentPlayerId: string;
+  phase: GamePhase;
+}
+
+// Room state from just before a move, kept so the move can be taken back
+interface UndoCheckpoint {
+  unitId: string;
+  state: EngineState;
+}
+
+type ActionResult =
+  | { success: true; unitId?: string }
+  | { success: false; error: ErrorPayload };
+
+// Units every player places during the deployment phase
+const STARTING_ARMY: UnitType[] = [
+  UnitType.WARRIOR,
+  UnitType.ARCHER,
+  UnitType.MAGE,
+  UnitType.CAVALRY,
+  UnitType.SIEGE,
+];
+
+// Seconds remaining at which the current player gets a warning
+const TURN_TIMER_WARNINGS = [60, 30, 10];
+
+// Upper bound on orders in one simultaneous turn; action points run out long before
+const MAX_ORDERS_PER_TURN = 100;
+
+// Bots sit in the room under a made-up session id derived from their lobby seat
+const BOT_SESSION_PREFIX = 'bot:';
+
+// Pause between a bot's actions, so players can follow what it does
+const BOT_ACTION_DELAY_MS = 700;
+
+const MAX_PLAYERS = 8;
+const MAX_SPECTATORS = 16;
+
+// Longer chat messages are cut off before anyone else sees them
+const MAX_CHAT_MESSAGE_LENGTH = 200;
+
+// Seconds the room holds a dropped client's session so it can reconnect transparently
+const DEFAULT_RECONNECTION_WINDOW = 30;
+
+// Seconds a disconnected player has to come back before their turns are taken over
+const DEFAULT_DISCONNECT_GRACE_PERIOD = 60;
+
+// How well the bot plays that stands in for a disconnected player
+const TAKEOVER_BOT_DIFFICULTY = BotDifficulty.NORMAL;
+
 export class GameRoom extends Room<GameState> {
-  maxClients = 8;
+  maxClients = MAX_PLAYERS + MAX_SPECTATORS;
   private playerOrder: string[] = []; // Maintain consistent player order
   private authenticatedUsers: Map<string, { userId: string; username: string }> = new Map();
   private userIdToSessionId: Map<string, string> = new Map(); // Track userId -> sessionId mapping
   private gameId: string = ''; // Store game ID for DB operations
   private lastSaveTime: number = 0; // Track last save time
+  private spawnPoints: GridPoint[] = []; // Spawn points of the loaded map, in player order
+  private unitSequence: number = 0; // Keeps unit IDs unique for the whole game
+  private engineSeed: number = 0; // RNG state of the rules engine, saved so a game replays identically
+  private actionSequence: number = 0; // Next sequence number in the game_actions log
+  private victoryConditions: VictoryCondition[] = DEFAULT_VICTORY_CONDITIONS;
+  private turnLimit: number | undefined = undefined;
+  private eliminatedPlayers: { id: string; username: string; team: number }[] = []; // Players who left mid-game
+  private teamFormat: TeamFormat = TeamFormat.FREE_FOR_ALL;
+  private turnTimeLimit: number = 0; // Seconds, 0 disables the turn timer
+  private turnTimerMode: TurnTimerMode = TurnTimerMode.PER_TURN;
+  private timeBankIncrement: number = 0;
+  private turnTimer: Delayed | null = null;
+  private lastVisionPayloads = new Map<string, string>(); // Last vision update sent per session
+  private knownTileOwners = new Map<string, Map<number, string>>(); // Player id -> tile index -> owner last seen there
+  private savedTileOwners: Record<string, string> = {}; // Tile index -> owner, reapplied once the map is built
+  private undoCheckpoints: UndoCheckpoint[] = []; // Moves the current player may still undo, newest last
+  private plannedOrders = new Map<string, UnitAction[]>(); // Simultaneous turns: player id -> submitted orders
+  private plannedRecruits = new Map<string, RecruitUnitPayload[]>(); // Simultaneous turns: player id -> recruits paid for while planning
+  private reconnectionWindow: number = DEFAULT_RECONNECTION_WINDOW;
+  private disconnectGracePeriod: number = DEFAULT_DISCONNECT_GRACE_PERIOD;
+  private disconnectPolicy: DisconnectPolicy = DisconnectPolicy.BOT;
+  private takeoverTimers = new Map<string, Delayed>(); // Player id -> pending takeover of a disconnected player
+  private isPrivate: boolean = false; // Private games cannot be watched
+  private spectatorDelay: number = 0; // Seconds spectators trail the live game
+  private spectators = new Map<string, Spectator>(); // Session id -> spectator
+  private spectatorFrames: SpectatorFrame[] = []; // Boards waiting out the spectator delay, oldest first
+  private lastSpectatorBoard: string = ''; // Last captured board, serialized
+  private spectatorFrameSequence: number = 0;
   
   async onAuth(client: Client, options: JoinOptions) {
     console.log('🔐 Authenticating client:', client.sessionId);
@@ -79,9 +233,6 @@ export class GameRoom extends Room<GameState> {
     
     this.setState(new GameState());
     
-    // Enable reconnection with 30 second window
-    // this.allowReconnection(30); // TODO: Check correct Colyseus API syntax
-    
     // Set initial game state
     this.state.gameId = options.gameId || this.roomId;
     this.gameId = this.state.gameId;
@@ -96,6 +247,26 @@ export class GameRoom extends Room<GameState> {
       console.log('🆕 Starting with fresh game state');
     }
     
+    // Settings and terrain always come from the DB so every client sees the same board
+    await this.loadGameConfig();
+    this.actionSequence = await this.loadNextActionSequence();
+    
+    // Pick the clock back up where the saved game left off
+    if (this.state.status === GameStatus.IN_PROGRESS && this.state.phase === GamePhase.BATTLE) {
+      this.startTurnTimer(true);
+      this.scheduleBotTurns();
+    }
+
+    // Nobody is connected to a room that was just created; players of a resumed game get the
+    // usual grace period to come back
+    if (this.state.status === GameStatus.IN_PROGRESS) {
+      this.state.players.forEach(player => {
+        if (player.isBot || player.botControlled) return;
+        player.isActive = false;
+        this.scheduleTakeover(player);
+      });
+    }
+    
     console.log('✅ GameRoom created successfully for gameId:', this.state.gameId);
     console.log('📊 Initial state set:', {
       gameId: this.state.gameId,
@@ -119,6 +290,13 @@ export class GameRoom extends Room<GameState> {
     this.onMessage(ClientMessageType.UNIT_ACTION, this.handleUnitAction.bind(this));
     this.onMessage(ClientMessageType.END_TURN, this.handleEndTurn.bind(this));
     this.onMessage(ClientMessageType.CHAT_MESSAGE, this.handleChatMessage.bind(this));
+    this.onMessage(ClientMessageType.DEPLOY_UNIT, this.handleDeployUnit.bind(this));
+    this.onMessage(ClientMessageType.DEPLOYMENT_DONE, this.handleDeploymentDone.bind(this));
+    this.onMessage(ClientMessageType.RECRUIT_UNIT, this.handleRecruitUnit.bind(this));
+    this.onMessage(ClientMessageType.CHOOSE_PERK, this.handleChoosePerk.bind(this));
+    this.onMessage(ClientMessageType.UNDO, this.handleUndo.bind(this));
+    this.onMessage(ClientMessageType.SUBMIT_ORDERS, this.handleSubmitOrders.bind(this));
+    this.onMessage(ClientMessageType.SPECTATE_PLAYER, this.handleSpectatePlayer.bind(this));
     
     console.log('✅ Game room created:', this.roomId, 'for game:', this.state.gameId);
   }
@@ -130,12 +308,17 @@ export class GameRoom extends Room<GameState> {
       console.log('❌ No authenticated data for client:', client.sessionId);
       client.send(ServerMessageType.ERROR, {
         message: 'Authentication required',
-        code: 'AUTHENTICATION_REQUIRED',
+        code: ErrorCode.AUTHENTICATION_REQUIRED,
       });
       client.leave();
       return;
     }
     
+    if (options.spectate) {
+      await this.addSpectator(client, authData);
+      return;
+    }
+    
     console.log('👤 Player joining:', client.sessionId, authData.username, 'Game ID:', options.gameId);
     
     // Check if this is a reconnection
@@ -163,6 +346,7 @@ export class GameRoom extends Room<GameState> {
         
         // Mark player as active again
         existingPlayer.isActive = true;
+        this.returnControl(existingPlayer);
         
         console.log('✅ Player reconnected successfully:', authData.username);
       }
@@ -172,7 +356,7 @@ export class GameRoom extends Room<GameState> {
       if (this.state.status === GameStatus.IN_PROGRESS) {
         client.send(ServerMessageType.ERROR, {
           message: 'Game already in progress',
-          code: 'GAME_IN_PROGRESS',
+          code: ErrorCode.GAME_IN_PROGRESS,
         });
         client.leave();
         return;
@@ -182,7 +366,9 @@ export class GameRoom extends Room<GameState> {
       const player = new Player();
       player.id = authData.userId;
       player.username = authData.username;
-      player.color = this.getPlayerColor(this.state.players.size);
+      const seat = await this.loadLobbySeat(authData.userId);
+      player.team = seat.team;
+      player.color = seat.color;
       
       this.state.players.set(client.sessionId, player);
       
@@ -194,6 +380,9 @@ export class GameRoom extends Room<GameState> {
       
       // Update active session in DB
       await this.updateActiveSession(authData.userId, client.sessionId);
+      
+      // The player may have taken over a bot's seat in the lobby
+      await this.syncBotSeats();
     }
     
     // Get the current player (for both new and reconnected players)
@@ -251,15 +440,43 @@ export class GameRoom extends Room<GameState> {
   async onLeave(client: Client, consented: boolean) {
     console.log('👋 Player left:', client.sessionId, 'consented:', consented);
     
-    // Clean up authenticated user data
-    this.authenticatedUsers.delete(client.sessionId);
+    if (this.spectators.delete(client.sessionId)) {
+      this.authenticatedUsers.delete(client.sessionId);
+      this.state.spectatorCount = this.spectators.size;
+      return;
+    }
+    
+    this.lastVisionPayloads.delete(client.sessionId);
     
     const player = this.state.players.get(client.sessionId);
     if (player) {
       // Mark player as inactive but don't remove immediately (allow reconnection)
       player.isActive = false;
       
-      console.log('⏳ Player marked as inactive, allowing reconnection:', player.username);
+      if (!consented && this.state.status !== GameStatus.FINISHED) {
+        console.log('⏳ Player marked as inactive, allowing reconnection:', player.username);
+        
+        this.broadcast(ServerMessageType.PLAYER_LEFT, {
+          playerId: player.id,
+          username: player.username,
+          temporary: true, // Indicate this is a temporary disconnection
+        });
+        
+        if (this.state.status === GameStatus.IN_PROGRESS) {
+          this.scheduleTakeover(player);
+        }
+        
+        if (await this.waitForReconnection(client, player)) return;
+        
+        // The player may have rejoined under a new session in the meantime
+        if (this.state.players.get(client.sessionId) !== player) {
+          this.authenticatedUsers.delete(client.sessionId);
+          return;
+        }
+      }
+      
+      // Clean up authenticated user data
+      this.authenticatedUsers.delete(client.sessionId);
       
       // Only remove player if they explicitly left (consented = true) or if room is in waiting state
       if (consented || this.state.status === GameStatus.WAITING) {
@@ -267,6 +484,7 @@ export class GameRoom extends Room<GameState> {
         
         // Clean up user mapping
         this.userIdToSessionId.delete(player.id);
+        this.cancelTakeover(player.id);
         
         this.broadcast(ServerMessageType.PLAYER_LEFT, {
           playerId: player.id,
@@ -276,47 +494,89 @@ export class GameRoom extends Room<GameState> {
         this.state.players.delete(client.sessionId);
         
         // Remove from player order
-        const index = this.playerOrder.indexOf(client.sessionId);
-        if (index > -1) {
-          this.playerOrder.splice(index, 1);
+        const playerIndex = this.playerOrder.indexOf(client.sessionId);
+        if (playerIndex > -1) {
+          this.playerOrder.splice(playerIndex, 1);
         }
         
         // If game is in progress, handle player leaving during game
-        if (this.state.status === GameStatus.IN_PROGRESS) {
-          const playerIndex = this.playerOrder.indexOf(client.sessionId);
-          if (playerIndex > -1) {
-            // Adjust current player index if needed
-            if (playerIndex < this.state.currentPlayerIndex) {
+        if (this.state.status === GameStatus.IN_PROGRESS && playerIndex > -1) {
+          // Keep the player in the final standings
+          this.eliminatedPlayers.push({ id: player.id, username: player.username, team: player.team });
+          this.recordAction(GameActionType.PLAYER_LEFT, player.id, {});
+          this.undoCheckpoints = [];
+          
+          // Remove player's units
+          const unitsToRemove: string[] = [];
+          this.state.units.forEach((unit, unitId) => {
+            if (unit.playerId === player.id) {
+              unitsToRemove.push(unitId);
+            }
+          });
+          unitsToRemove.forEach(unitId => {
+            this.state.units.delete(unitId);
+          });
+          
+          // Their castles and villages go back to being neutral
+          this.state.tiles.forEach(tile => {
+            if (tile.ownerId === player.id) tile.ownerId = '';
+          });
+          
+          if (this.state.phase === GamePhase.DEPLOYMENT) {
+            // Remaining players may now all be deployed
+            await this.checkDeploymentComplete();
+          } else if (!(await this.checkForVictory())) {
+            if (this.isSimultaneous()) {
+              // Their orders go with them; the rest may have been waiting only on this player
+              this.plannedOrders.delete(player.id);
+              this.plannedRecruits.delete(player.id);
+              if (this.getPlanningPlayers().every(other => other.ordersSubmitted)) {
+                await this.resolvePlannedTurn();
+              }
+            } else if (playerIndex < this.state.currentPlayerIndex) {
+              // Adjust current player index if needed
               this.state.currentPlayerIndex--;
             } else if (playerIndex === this.state.currentPlayerIndex) {
-              // Current player left, skip to next
+              // Current player left, hand the turn to whoever now follows in order
+              this.state.currentPlayerIndex = playerIndex - 1;
               await this.advanceToNextPlayer();
             }
-            
-            // Remove player's units
-            const unitsToRemove: string[] = [];
-            this.state.units.forEach((unit, unitId) => {
-              if (unit.playerId === player.id) {
-                unitsToRemove.push(unitId);
-              }
-            });
-            unitsToRemove.forEach(unitId => {
-              this.state.units.delete(unitId);
-            });
           }
         }
-      } else {
-        // Player disconnected but didn't explicitly leave - allow reconnection
-        this.broadcast(ServerMessageType.PLAYER_LEFT, {
-          playerId: player.id,
-          username: player.username,
-          temporary: true, // Indicate this is a temporary disconnection
-        });
       }
+      // Otherwise the player stays in the game and can still rejoin it later
+    } else {
+      this.authenticatedUsers.delete(client.sessionId);
+    }
+  }
+  
+  // Holds the dropped client's session for the reconnection window. A client that comes back
+  // keeps its session id, so turn order and orders carry on as if it never left; it gets the
+  // full state from Colyseus and its vision with the next patch.
+  private async waitForReconnection(client: Client, player: Player): Promise<boolean> {
+    if (this.reconnectionWindow <= 0) return false;
+    
+    try {
+      const reconnected = await this.allowReconnection(client, this.reconnectionWindow);
+      
+      console.log('🔄 Player reconnected:', player.username);
+      player.isActive = true;
+      this.returnControl(player);
+      
+      this.broadcast(ServerMessageType.PLAYER_JOINED, {
+        playerId: player.id,
+        username: player.username,
+        playerCount: this.state.players.size,
+        reconnected: true,
+      }, { except: reconnected });
+      return true;
+    } catch {
+      console.log('⌛ Reconnection window expired for:', player.username);
+      return false;
     }
   }
   
-  private handlePlayerReady(client: Client, message: any) {
+  private async handlePlayerReady(client: Client, message: any) {
     const player = this.state.players.get(client.sessionId);
     if (!player) {
       console.log('❌ Player not found for ready signal:', client.sessionId);
@@ -326,6 +586,9 @@ export class GameRoom extends Room<GameState> {
     console.log('✅ Player ready:', player.username);
     player.isReady = true;
     
+    // Bots added from the lobby since anyone joined take their seats now; they are always ready
+    await this.syncBotSeats();
+    
     // Broadcast updated state immediately
     console.log('📤 Sending updated state after ready');
     this.broadcast('manual_state_update', {
@@ -347,273 +610,1272 @@ export class GameRoom extends Room<GameState> {
       if (!p.isReady) allReady = false;
     });
     
-    if (allReady && this.state.players.size >= 1) {
+    if (allReady && this.state.players.size >= 1 && this.state.status === GameStatus.WAITING) {
       console.log('🎮 All players ready, starting game...');
-      this.startGame();
+      await this.startGame();
+    }
+  }
+  
+  private async handleUnitAction(client: Client, message: UnitActionPayload) {
+    const error = await this.performUnitAction(client.sessionId, message?.action);
+    if (error) {
+      client.send(ServerMessageType.ERROR, error);
+    }
+  }
+  
+  // Every unit action goes through here, whether a client or a bot asked for it
+  private async performUnitAction(sessionId: string, action: UnitAction | undefined): Promise<ErrorPayload | null> {
+    const player = this.state.players.get(sessionId);
+    if (!player || !this.isPlayerTurn(sessionId)) {
+      return { message: 'Not your turn', code: ErrorCode.NOT_YOUR_TURN };
+    }
+    
+    if (this.isSimultaneous()) {
+      return { message: 'Orders are submitted together in simultaneous turns', code: ErrorCode.INVALID_PHASE };
+    }
+    
+    const unit = action ? this.state.units.get(action.unitId) : undefined;
+    if (!action || !unit || unit.playerId !== player.id) {
+      return { message: 'Invalid unit', code: ErrorCode.INVALID_UNIT };
+    }
+    
+    console.log('🎯 Processing unit action:', action.type, 'for unit:', action.unitId);
+    
+    const checkpoint = action.type === 'move' ? this.toEngineState() : null;
+    const seenBefore = this.getVisionFor(sessionId).unitIds;
+    
+    const result = this.runEngine({ type: 'unit_action', playerId: player.id, action });
+    if (!result.success) {
+      console.log('❌ Unit action rejected:', result.error.code);
+      return result.error;
+    }
+    
+    this.recordAction(GameActionType.UNIT_ACTION, player.id, { action });
+    
+    // A move stays undoable only while it taught the player nothing: no enemy came into
+    // sight. Anything else, attacks included, locks in every move made so far.
+    const revealed = Array.from(this.getVisionFor(sessionId).unitIds).some(unitId => !seenBefore.has(unitId));
+    if (checkpoint && !revealed) {
+      this.undoCheckpoints.push({ unitId: action.unitId, state: checkpoint });
+    } else {
+      this.undoCheckpoints = [];
+    }
+    const summary = this.summarizeEvents(result.events);
+    
+    // Broadcast action result with each player's view of the game state;
+    // the path is withheld from players who cannot see where the unit ended up
+    this.clients.forEach(recipient => {
+      if (this.spectators.has(recipient.sessionId)) return;
+      const canSeeUnit = this.isUnitVisibleTo(recipient.sessionId, unit);
+      recipient.send(ServerMessageType.UNIT_ACTION_RESULT, {
+        type: action.type,
+        unitId: action.unitId,
+        success: true,
+        path: canSeeUnit ? summary.path : undefined,
+        combat: summary.combat,
+        ability: summary.ability,
+        capturedTile: summary.capturedTile,
+        promotions: summary.promotions.length > 0 ? summary.promotions : undefined,
+        actionPointsRemaining: player.actionPoints,
+        canUndo: recipient.sessionId === sessionId ? this.undoCheckpoints.length > 0 : undefined,
+        gameState: this.getGameStateForClient(recipient.sessionId)
+      });
+    });
+    
+    await this.checkForVictory();
+    return null;
+  }
+  
+  // Runs an action through the shared rules engine and adopts the resulting state
+  private runEngine(action: EngineAction): EngineResult {
+    const result = applyAction(this.toEngineState(), action);
+    if (result.success) {
+      this.applyEngineState(result.state);
+      this.logEngineEvents(result.events);
+    }
+    return result;
+  }
+  
+  // Snapshot of the room state in the plain shape the rules engine works on
+  private toEngineState(): EngineState {
+    const units: Record<string, EngineUnit> = {};
+    this.state.units.forEach((unit, unitId) => {
+      units[unitId] = this.toEngineUnit(unit);
+    });
+    
+    const players: Record<string, EnginePlayer> = {};
+    this.state.players.forEach(player => {
+      players[player.id] = {
+        id: player.id,
+        team: player.team,
+        gold: player.gold,
+        mana: player.mana,
+        actionPoints: player.actionPoints,
+      };
+    });
+    
+    return {
+      width: this.state.mapWidth,
+      height: this.state.mapHeight,
+      tiles: this.state.tiles.map(tile => ({
+        type: tile.type,
+        isWalkable: tile.isWalkable,
+        movementCost: tile.movementCost,
+        defenseBonus: tile.defenseBonus,
+        ownerId: tile.ownerId,
+      })),
+      units,
+      players,
+      settings: {
+        rangeMetric: this.state.rangeMetric,
+        counterDamageMultiplier: this.state.counterDamageMultiplier,
+      },
+      seed: this.engineSeed,
+    };
+  }
+  
+  private toEngineUnit(unit: Unit): EngineUnit {
+    return {
+      id: unit.id,
+      playerId: unit.playerId,
+      type: unit.type,
+      position: { x: unit.position.x, y: unit.position.y },
+      health: unit.health,
+      maxHealth: unit.maxHealth,
+      attack: unit.attack,
+      defense: unit.defense,
+      movement: unit.movement,
+      range: unit.range,
+      minRange: unit.minRange,
+      sight: unit.sight,
+      cooldowns: Object.fromEntries(unit.cooldowns.entries()),
+      effects: this.serializeStatusEffects(unit),
+      experience: unit.experience,
+      rank: unit.rank,
+      pendingPerks: unit.pendingPerks,
+      perks: unit.perks.toArray(),
+      hasMoved: unit.hasMoved,
+      hasAttacked: unit.hasAttacked,
+      isAlive: unit.isAlive,
+    };
+  }
+  
+  // Copies an engine result back into the synced schema, touching only what changed
+  private applyEngineState(next: EngineState) {
+    this.state.units.forEach((unit, unitId) => {
+      const data = next.units[unitId];
+      if (!data) {
+        unit.isAlive = false;
+        this.state.units.delete(unitId);
+        return;
+      }
+      
+      unit.position.x = data.position.x;
+      unit.position.y = data.position.y;
+      unit.health = data.health;
+      unit.maxHealth = data.maxHealth;
+      unit.attack = data.attack;
+      unit.defense = data.defense;
+      unit.movement = data.movement;
+      unit.range = data.range;
+      unit.minRange = data.minRange;
+      unit.sight = data.sight;
+      unit.experience = data.experience;
+      unit.rank = data.rank;
+      unit.pendingPerks = data.pendingPerks;
+      unit.hasMoved = data.hasMoved;
+      unit.hasAttacked = data.hasAttacked;
+      unit.isAlive = data.isAlive;
+      
+      unit.cooldowns.forEach((_turns, abilityId) => {
+        if (!(abilityId in data.cooldowns)) unit.cooldowns.delete(abilityId);
+      });
+      Object.entries(data.cooldowns).forEach(([abilityId, turns]) => {
+        unit.cooldowns.set(abilityId, turns);
+      });
+      
+      data.effects.forEach((effectData, index) => {
+        const effect = unit.effects[index] ?? new StatusEffect();
+        effect.effectId = effectData.effectId;
+        effect.turnsRemaining = effectData.turnsRemaining;
+        effect.stacks = effectData.stacks;
+        if (index >= unit.effects.length) unit.effects.push(effect);
+      });
+      while (unit.effects.length > data.effects.length) unit.effects.pop();
+      
+      data.perks.slice(unit.perks.length).forEach(perkId => unit.perks.push(perkId));
+    });
+    
+    this.state.players.forEach(player => {
+      const data = next.players[player.id];
+      if (!data) return;
+      player.gold = data.gold;
+      player.mana = data.mana;
+      player.actionPoints = data.actionPoints;
+    });
+    
+    next.tiles.forEach((data, index) => {
+      const tile = this.state.tiles[index];
+      if (tile && tile.ownerId !== data.ownerId) tile.ownerId = data.ownerId;
+    });
+    
+    this.engineSeed = next.seed;
+  }
+  
+  private logEngineEvents(events: EngineEvent[]) {
+    events.forEach(event => {
+      switch (event.type) {
+        case 'unit_moved':
+          console.log('🚶 Unit moved:', event.unitId, 'via', event.path.length, 'tiles');
+          break;
+        case 'tile_captured':
+          console.log('🏰 Tile captured at', event.position.x, event.position.y, 'by', event.unitId);
+          break;
+        case 'attack':
+          console.log('⚔️ Unit attacked:', event.combat.attackerId, '->', event.combat.defenderId, event.combat.damageDealt);
+          if (event.combat.counterDamage > 0) {
+            console.log('🛡️ Counterattack:', event.combat.defenderId, '->', event.combat.attackerId, event.combat.counterDamage);
+          }
+          break;
+        case 'ability_used':
+          console.log('✨ Ability used:', event.ability.casterId, event.ability.abilityId, 'hits:', event.ability.hits.length);
+          break;
+        case 'unit_killed':
+          console.log('💀 Unit defeated:', event.unitId);
+          break;
+        case 'promoted':
+          console.log('🎖️ Unit promoted:', event.promotion.unitId, 'to rank', event.promotion.rank);
+          break;
+        case 'status_applied':
+          console.log('🧪 Status applied:', event.effectId, 'to', event.unitId, 'x' + event.stacks);
+          break;
+        case 'perk_chosen':
+          console.log('🎖️ Perk chosen:', event.unitId, event.perkId);
+          break;
+      }
+    });
+  }
+  
+  // Folds the engine events of one action into the fields of the action result message
+  private summarizeEvents(events: EngineEvent[]) {
+    const summary: {
+      path?: GridPoint[];
+      combat?: CombatResult;
+      ability?: AbilityResult;
+      capturedTile?: GridPoint;
+      promotions: PromotionResult[];
+    } = { promotions: [] };
+    
+    events.forEach(event => {
+      switch (event.type) {
+        case 'unit_moved':
+          summary.path = event.path;
+          break;
+        case 'attack':
+          summary.combat = event.combat;
+          break;
+        case 'ability_used':
+          summary.ability = event.ability;
+          break;
+        case 'tile_captured':
+          summary.capturedTile = event.position;
+          break;
+        case 'promoted':
+          summary.promotions.push(event.promotion);
+          break;
+      }
+    });
+    
+    return summary;
+  }
+  
+  private rejectAction(code: ErrorCode, message: string): ActionResult {
+    return { success: false, error: { code, message } };
+  }
+  
+  private getMapBounds() {
+    return { width: this.state.mapWidth, height: this.state.mapHeight };
+  }
+  
+  private getTileAt(x: number, y: number): Tile | undefined {
+    if (x < 0 || y < 0 || x >= this.state.mapWidth || y >= this.state.mapHeight) {
+      return undefined;
     }
+    return this.state.tiles[y * this.state.mapWidth + x];
   }
   
-  private handleUnitAction(client: Client, action: UnitAction) {
+  private getUnitAt(x: number, y: number): Unit | undefined {
+    for (const unit of this.state.units.values()) {
+      if (unit.isAlive && unit.position.x === x && unit.position.y === y) {
+        return unit;
+      }
+    }
+    return undefined;
+  }
+  
+  private async handleChoosePerk(client: Client, message: ChoosePerkPayload) {
+    const error = await this.performChoosePerk(client.sessionId, message?.unitId, message?.perkId);
+    if (error) {
+      client.send(ServerMessageType.ERROR, error);
+    }
+  }
+  
+  private async performChoosePerk(sessionId: string, unitId: string, perkId: string): Promise<ErrorPayload | null> {
+    const player = this.state.players.get(sessionId);
+    if (!player || !this.isPlayerTurn(sessionId)) {
+      return { message: 'Not your turn', code: ErrorCode.NOT_YOUR_TURN };
+    }
+    
+    const result = this.runEngine({ type: 'choose_perk', playerId: player.id, unitId, perkId });
+    if (!result.success) return result.error;
+    
+    this.recordAction(GameActionType.CHOOSE_PERK, player.id, { unitId, perkId });
+    this.undoCheckpoints = [];
+    await this.saveGameState();
+    return null;
+  }
+  
+  // Puts the room back to how it was before the player's last undoable move
+  private handleUndo(client: Client) {
     const player = this.state.players.get(client.sessionId);
     if (!player || !this.isPlayerTurn(client.sessionId)) {
       client.send(ServerMessageType.ERROR, {
         message: 'Not your turn',
-        code: 'NOT_YOUR_TURN',
+        code: ErrorCode.NOT_YOUR_TURN,
       });
       return;
     }
     
-    const unit = this.state.units.get(action.unitId);
-    if (!unit || unit.playerId !== player.id) {
+    const checkpoint = this.undoCheckpoints.pop();
+    if (!checkpoint) {
       client.send(ServerMessageType.ERROR, {
-        message: 'Invalid unit',
-        code: 'INVALID_UNIT',
+        message: 'There is no move to undo',
+        code: ErrorCode.NOTHING_TO_UNDO,
       });
       return;
     }
     
-    console.log('🎯 Processing unit action:', action.type, 'for unit:', action.unitId);
-    
-    // Process action based on type
-    switch (action.type) {
-      case 'move':
-        this.handleUnitMove(unit, action.targetPosition!);
-        break;
-      case 'attack':
-        this.handleUnitAttack(unit, action.targetUnitId!);
-        break;
-    }
+    this.applyEngineState(checkpoint.state);
+    this.recordAction(GameActionType.UNDO_MOVE, player.id, { unitId: checkpoint.unitId });
+    console.log('↩️ Move undone:', checkpoint.unitId, 'by', player.username);
     
-    // Broadcast action result with updated game state
-    this.broadcast(ServerMessageType.UNIT_ACTION_RESULT, {
-      type: action.type,
-      unitId: action.unitId,
-      success: true,
-      gameState: this.getGameStateForClient()
+    // Opponents only see the unit step back through their regular vision updates
+    client.send(ServerMessageType.MOVE_UNDONE, {
+      unitId: checkpoint.unitId,
+      position: checkpoint.state.units[checkpoint.unitId]?.position,
+      actionPointsRemaining: player.actionPoints,
+      canUndo: this.undoCheckpoints.length > 0,
+      gameState: this.getGameStateForClient(client.sessionId),
     });
   }
   
-  private handleUnitMove(unit: Unit, targetPosition: Position) {
-    if (unit.hasMoved) return;
+  private async handleEndTurn(client: Client) {
+    const player = this.state.players.get(client.sessionId);
+    if (!player || !this.isPlayerTurn(client.sessionId) || this.isSimultaneous()) return;
     
-    console.log('🚶 Moving unit to:', targetPosition);
-    // Simple movement - just update position
-    // In real game, check path, terrain, etc.
-    unit.position.x = targetPosition.x;
-    unit.position.y = targetPosition.y;
-    unit.hasMoved = true;
+    await this.endCurrentTurn(player);
+  }
+  
+  private isSimultaneous(): boolean {
+    return this.state.turnMode === TurnMode.SIMULTANEOUS;
+  }
+  
+  // Players taking part in the current simultaneous turn
+  private getPlanningPlayers(): Player[] {
+    return this.playerOrder
+      .map(sessionId => this.state.players.get(sessionId))
+      .filter((player): player is Player => !!player);
+  }
+  
+  private async handleSubmitOrders(client: Client, message: SubmitOrdersPayload) {
+    const error = await this.performSubmitOrders(client.sessionId, message?.orders);
+    if (error) {
+      client.send(ServerMessageType.ERROR, error);
+    }
   }
   
-  private handleUnitAttack(unit: Unit, targetUnitId: string) {
-    if (unit.hasAttacked) return;
+  private async performSubmitOrders(sessionId: string, submitted: UnitAction[] | undefined): Promise<ErrorPayload | null> {
+    const player = this.state.players.get(sessionId);
+    if (!player || !this.isSimultaneous() || !this.isPlayerTurn(sessionId)) {
+      return { message: 'Not accepting orders right now', code: ErrorCode.NOT_YOUR_TURN };
+    }
     
-    const targetUnit = this.state.units.get(targetUnitId);
-    if (!targetUnit) return;
+    // Legality is decided when the orders resolve; here they only have to command our own units
+    const orders: UnitAction[] = Array.isArray(submitted) ? submitted : [];
+    const foreign = orders.some(order => this.state.units.get(order?.unitId)?.playerId !== player.id);
+    if (foreign || orders.length > MAX_ORDERS_PER_TURN) {
+      return { message: 'Orders can only command your own units', code: ErrorCode.INVALID_UNIT };
+    }
     
-    console.log('⚔️ Unit attacking:', unit.id, '->', targetUnitId);
+    this.plannedOrders.set(player.id, orders);
+    player.ordersSubmitted = true;
+    console.log('📨 Orders submitted:', player.username, orders.length);
     
-    // Simple combat calculation
-    const damage = Math.max(1, unit.attack - targetUnit.defense);
-    targetUnit.health -= damage;
+    const waitingFor = this.getPlanningPlayers().filter(other => !other.ordersSubmitted);
+    this.broadcastToPlayers(ServerMessageType.ORDERS_SUBMITTED, {
+      playerId: player.id,
+      username: player.username,
+      waitingFor: waitingFor.map(other => other.username),
+    });
     
-    if (targetUnit.health <= 0) {
-      console.log('💀 Unit defeated:', targetUnitId);
-      targetUnit.isAlive = false;
-      this.state.units.delete(targetUnitId);
+    if (waitingFor.length === 0) {
+      await this.resolvePlannedTurn();
     }
+    return null;
+  }
+  
+  // Runs everyone's orders through the engine together, shows each player what they saw
+  // happen, then starts the next planning turn
+  private async resolvePlannedTurn() {
+    this.clearTurnTimer();
+    this.state.turnTimeRemaining = 0;
     
-    unit.hasAttacked = true;
+    const players = this.getPlanningPlayers();
+    const before = this.toEngineState();
+    const { state, steps } = resolveSimultaneousTurn(
+      before,
+      Object.fromEntries(this.plannedOrders),
+      getTurnPriority(players.map(player => player.id), this.state.turnNumber)
+    );
+    this.plannedOrders.clear();
+    
+    this.applyEngineState(state);
+    steps.forEach(step => {
+      if (!step.success) {
+        console.log('💨 Order fizzled:', step.action.type, step.action.unitId, step.error?.code);
+        return;
+      }
+      this.logEngineEvents(step.events);
+      this.recordAction(GameActionType.UNIT_ACTION, step.playerId, { action: step.action });
+    });
+    this.musterPlannedRecruits();
+    console.log('⚙️ Turn', this.state.turnNumber, 'resolved with', steps.length, 'orders');
+    
+    this.clients.forEach(client => {
+      const player = this.state.players.get(client.sessionId);
+      if (!player) return;
+      client.send(ServerMessageType.TURN_RESOLVED, {
+        turnNumber: this.state.turnNumber,
+        steps: this.getResolvedOrdersFor(player.id, before, steps),
+      });
+    });
+    
+    if (await this.checkForVictory()) return;
+    
+    players.forEach(player => {
+      player.ordersSubmitted = false;
+      this.runEngine({ type: 'end_turn', playerId: player.id });
+      this.recordAction(GameActionType.END_TURN, player.id, {});
+    });
+    
+    await this.beginSimultaneousTurn();
   }
   
-  private async handleEndTurn(client: Client) {
-    const player = this.state.players.get(client.sessionId);
-    if (!player || !this.isPlayerTurn(client.sessionId)) return;
+  // The resolved orders one player is allowed to know about, each with the units in sight after it
+  private getResolvedOrdersFor(playerId: string, before: EngineState, steps: ResolvedOrder[]): ResolvedOrderView[] {
+    const views: ResolvedOrderView[] = [];
+    let seenBefore = getVisibleUnitIds(before, playerId);
+    
+    steps.forEach(step => {
+      const seenAfter = getVisibleUnitIds(step.state, playerId);
+      const own = step.playerId === playerId;
+      const witnessed = seenBefore.has(step.action.unitId) || seenAfter.has(step.action.unitId);
+      seenBefore = seenAfter;
+      if (!own && (!step.success || !witnessed)) return;
+      
+      const summary = this.summarizeEvents(step.events);
+      views.push({
+        playerId: step.playerId,
+        action: step.action,
+        success: step.success,
+        error: own ? step.error : undefined,
+        path: seenAfter.has(step.action.unitId) ? summary.path : undefined,
+        combat: summary.combat,
+        ability: summary.ability,
+        units: Array.from(seenAfter).map(unitId => step.state.units[unitId]),
+      });
+    });
+    
+    return views;
+  }
+  
+  private async beginSimultaneousTurn() {
+    this.state.turnNumber++;
+    
+    // The turn limit is checked as soon as the turn counter moves past it
+    if (await this.checkForVictory()) return;
+    
+    const started = new Map(this.getPlanningPlayers().map(player => [player.id, this.beginPlayerTurn(player)]));
+    this.startTurnTimer();
+    
+    console.log('🔄 Planning turn', this.state.turnNumber, 'started');
+    
+    // Everyone plans at once, so each player is told it is their turn
+    this.clients.forEach(client => {
+      const player = this.state.players.get(client.sessionId);
+      if (!player) return;
+      const start = started.get(player.id);
+      client.send(ServerMessageType.TURN_CHANGED, {
+        currentPlayerIndex: this.state.currentPlayerIndex,
+        turnNumber: this.state.turnNumber,
+        currentPlayer: player.id,
+        currentPlayerName: player.username,
+        simultaneous: true,
+        income: start?.income ?? 0,
+        statusTicks: start?.statusTicks ?? [],
+        gameState: this.getGameStateForClient(client.sessionId),
+      });
+    });
     
+    await this.saveGameState();
+    this.scheduleBotTurns();
+  }
+  
+  private async endCurrentTurn(player: Player) {
     console.log('🔄 Ending turn for player:', player.username);
     
+    this.stopTurnTimer(player);
+    this.undoCheckpoints = [];
+    
     // Reset unit states for current player
-    this.state.units.forEach(unit => {
-      if (unit.playerId === player.id) {
-        unit.hasMoved = false;
-        unit.hasAttacked = false;
-      }
-    });
+    this.runEngine({ type: 'end_turn', playerId: player.id });
+    this.recordAction(GameActionType.END_TURN, player.id, {});
     
     // Advance to next player
     await this.advanceToNextPlayer();
   }
 
   private async advanceToNextPlayer() {
+    if (this.playerOrder.length === 0) return;
+    
     this.state.currentPlayerIndex = (this.state.currentPlayerIndex + 1) % this.playerOrder.length;
     this.state.turnNumber++;
     
+    // The turn limit is checked as soon as the turn counter moves past it
+    if (await this.checkForVictory()) return;
+    
     const currentSessionId = this.playerOrder[this.state.currentPlayerIndex];
     const currentPlayer = this.state.players.get(currentSessionId);
     
     if (currentPlayer) {
-      currentPlayer.actionPoints = 3;
+      this.state.currentPlayerId = currentPlayer.id;
+      const { income, statusTicks } = this.beginPlayerTurn(currentPlayer);
+      this.startTurnTimer();
       
       console.log('🔄 Turn advanced to:', currentPlayer.username, 'Turn:', this.state.turnNumber);
       
-      this.broadcast(ServerMessageType.TURN_CHANGED, {
+      this.broadcastWithState(ServerMessageType.TURN_CHANGED, {
         currentPlayerIndex: this.state.currentPlayerIndex,
         turnNumber: this.state.turnNumber,
         currentPlayer: currentPlayer.id,
         currentPlayerName: currentPlayer.username,
-        gameState: this.getGameStateForClient()
+        income,
+        statusTicks,
       });
       
       // Save game state after turn change
       await this.saveGameState();
+      this.scheduleBotTurns();
     }
   }
   
-  private handleChatMessage(client: Client, message: string) {
-    const player = this.state.players.get(client.sessionId);
-    if (!player) return;
+  // Refills action points, pays income, regenerates mana, counts down cooldowns and ticks
+  // status effects on the player's units. Returns the gold paid out and what each effect did.
+  private beginPlayerTurn(player: Player): { income: number; statusTicks: StatusTick[] } {
+    const result = this.runEngine({ type: 'begin_turn', playerId: player.id });
+    this.recordAction(GameActionType.TURN_STARTED, player.id, {});
+    let income = 0;
+    const statusTicks: StatusTick[] = [];
     
-    console.log('💬 Chat message from', player.username, ':', message);
+    if (result.success) {
+      result.events.forEach(event => {
+        if (event.type === 'income') income = event.gold;
+        if (event.type === 'status_tick') statusTicks.push(event.tick);
+      });
+    }
     
-    this.broadcast(ServerMessageType.CHAT_MESSAGE, {
-      playerId: player.id,
-      username: player.username,
-      message,
-      timestamp: Date.now(),
-    });
+    return { income, statusTicks };
   }
   
-  private async startGame() {
-    console.log('🎮 Starting game with', this.state.players.size, 'players');
+  private getCurrentPlayer(): Player | undefined {
+    return this.state.players.get(this.playerOrder[this.state.currentPlayerIndex]);
+  }
+  
+  // Starts the clock for the current player; resuming keeps the synced remaining time
+  private startTurnTimer(resume: boolean = false) {
+    this.clearTurnTimer();
     
-    this.state.status = GameStatus.IN_PROGRESS;
-    this.state.phase = GamePhase.BATTLE;
-    this.state.currentPlayerIndex = 0;
-    this.state.turnNumber = 1;
+    const player = this.isSimultaneous() ? undefined : this.getCurrentPlayer();
+    if (!this.turnTimeLimit || (!player && !this.isSimultaneous())) {
+      this.state.turnTimeRemaining = 0;
+      return;
+    }
     
-    // Spawn initial units for each player in order
-    this.playerOrder.forEach((sessionId, playerIndex) => {
-      const player = this.state.players.get(sessionId);
-      if (player) {
-        this.spawnUnitsForPlayer(player, playerIndex);
-        console.log('⚔️ Spawned units for player:', player.username, 'at index:', playerIndex);
-      }
+    if (!resume) {
+      this.state.turnTimeRemaining = player && this.turnTimerMode === TurnTimerMode.TIME_BANK
+        ? player.timeBank
+        : this.turnTimeLimit;
+    }
+    
+    this.turnTimer = this.clock.setInterval(() => this.tickTurnTimer(), 1000);
+  }
+  
+  // Called when a player's turn ends; in time bank mode the unused time is kept
+  private stopTurnTimer(player: Player) {
+    if (this.turnTimeLimit && this.turnTimerMode === TurnTimerMode.TIME_BANK) {
+      player.timeBank = this.state.turnTimeRemaining + this.timeBankIncrement;
+    }
+    
+    this.clearTurnTimer();
+    this.state.turnTimeRemaining = 0;
+  }
+  
+  private clearTurnTimer() {
+    if (this.turnTimer) {
+      this.turnTimer.clear();
+      this.turnTimer = null;
+    }
+  }
+  
+  private async tickTurnTimer() {
+    if (this.isSimultaneous()) {
+      await this.tickPlanningTimer();
+      return;
+    }
+    
+    const player = this.getCurrentPlayer();
+    if (!player || this.state.status !== GameStatus.IN_PROGRESS || this.state.phase !== GamePhase.BATTLE) {
+      this.clearTurnTimer();
+      return;
+    }
+    
+    this.state.turnTimeRemaining = Math.max(0, this.state.turnTimeRemaining - 1);
+    const secondsRemaining = this.state.turnTimeRemaining;
+    
+    if (TURN_TIMER_WARNINGS.includes(secondsRemaining)) {
+      this.broadcastToPlayers(ServerMessageType.TURN_TIMER_WARNING, {
+        playerId: player.id,
+        username: player.username,
+        secondsRemaining,
+      });
+    }
+    
+    if (secondsRemaining === 0) {
+      console.log('⏰ Turn timed out for player:', player.username);
+      this.clearTurnTimer();
+      
+      this.broadcastToPlayers(ServerMessageType.TURN_TIMED_OUT, {
+        playerId: player.id,
+        username: player.username,
+        secondsRemaining,
+      });
+      
+      await this.endCurrentTurn(player);
+    }
+  }
+  
+  // Simultaneous turns share one clock; whoever hasn't submitted when it runs out plans nothing
+  private async tickPlanningTimer() {
+    if (this.state.status !== GameStatus.IN_PROGRESS || this.state.phase !== GamePhase.BATTLE) {
+      this.clearTurnTimer();
+      return;
+    }
+    
+    this.state.turnTimeRemaining = Math.max(0, this.state.turnTimeRemaining - 1);
+    const secondsRemaining = this.state.turnTimeRemaining;
+    const planning = this.getPlanningPlayers().filter(player => !player.ordersSubmitted);
+    
+    if (TURN_TIMER_WARNINGS.includes(secondsRemaining)) {
+      planning.forEach(player => {
+        this.broadcastToPlayers(ServerMessageType.TURN_TIMER_WARNING, {
+          playerId: player.id,
+          username: player.username,
+          secondsRemaining,
+        });
+      });
+    }
+    
+    if (secondsRemaining === 0) {
+      console.log('⏰ Planning time ran out, still waiting for', planning.length, 'players');
+      this.clearTurnTimer();
+      
+      planning.forEach(player => {
+        this.broadcastToPlayers(ServerMessageType.TURN_TIMED_OUT, {
+          playerId: player.id,
+          username: player.username,
+          secondsRemaining,
+        });
+      });
+      
+      await this.resolvePlannedTurn();
+    }
+  }
+  
+  private handleChatMessage(client: Client, raw: unknown) {
+    if (typeof raw !== 'string') return;
+    const message = raw.trim().slice(0, MAX_CHAT_MESSAGE_LENGTH);
+    if (!message) return;
+    
+    // Spectators talk among themselves, so they cannot tip off the players
+    const spectator = this.spectators.get(client.sessionId);
+    if (spectator) {
+      this.sendToSpectators(ServerMessageType.CHAT_MESSAGE, {
+        playerId: spectator.userId,
+        username: spectator.username,
+        message,
+        timestamp: Date.now(),
+        spectator: true,
+      });
+      return;
+    }
+    
+    const player = this.state.players.get(client.sessionId);
+    if (!player) return;
+    
+    console.log('💬 Chat message from', player.username, ':', message);
+    this.recordAction(GameActionType.CHAT, player.id, { username: player.username, message });
+    
+    this.broadcast(ServerMessageType.CHAT_MESSAGE, {
+      playerId: player.id,
+      username: player.username,
+      message,
+      timestamp: Date.now(),
     });
+  }
+  
+  // Ends the game if any enabled victory condition is met
+  private async checkForVictory(): Promise<boolean> {
+    if (this.state.status !== GameStatus.IN_PROGRESS || this.state.phase !== GamePhase.BATTLE) {
+      return false;
+    }
     
-    // Set first player's action points
-    const firstSessionId = this.playerOrder[0];
-    const firstPlayer = this.state.players.get(firstSessionId);
-    if (firstPlayer) {
-      firstPlayer.actionPoints = 3;
+    const outcome = checkVictory({
+      conditions: this.victoryConditions,
+      players: this.getVictoryPlayers(),
+      turnNumber: this.state.turnNumber,
+      turnLimit: this.turnLimit,
+    });
+    
+    if (!outcome) return false;
+    
+    await this.endGame(outcome);
+    return true;
+  }
+  
+  private getVictoryPlayers(): VictoryPlayer[] {
+    const players: VictoryPlayer[] = [];
+    
+    this.playerOrder.forEach(sessionId => {
+      const player = this.state.players.get(sessionId);
+      if (!player) return;
+      
+      const units = Array.from(this.state.units.values())
+        .filter(unit => unit.playerId === player.id && unit.isAlive)
+        .map(unit => ({ health: unit.health, position: { x: unit.position.x, y: unit.position.y } }));
+      
+      players.push({
+        id: player.id,
+        username: player.username,
+        team: player.team,
+        units,
+        homeCastle: this.getHomeCastle(player),
+        eliminated: false,
+      });
+    });
+    
+    this.eliminatedPlayers.forEach(player => {
+      players.push({ ...player, units: [], homeCastle: null, eliminated: true });
+    });
+    
+    return players;
+  }
+  
+  // A player's home castle is the castle tile closest to their spawn point inside their deployment zone
+  private getHomeCastle(player: Player): GridPoint | null {
+    let best: GridPoint | null = null;
+    let bestDistance = Infinity;
+    const radius = this.state.deploymentRadius;
+    
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        const x = player.spawnPoint.x + dx;
+        const y = player.spawnPoint.y + dy;
+        const tile = this.getTileAt(x, y);
+        const distance = Math.abs(dx) + Math.abs(dy);
+        if (tile?.type === TileType.CASTLE && distance < bestDistance) {
+          best = { x, y };
+          bestDistance = distance;
+        }
+      }
     }
     
+    return best;
+  }
+  
+  private async endGame(outcome: VictoryOutcome) {
+    const winner = outcome.standings.find(standing => standing.isWinner);
+    console.log('🏆 Game ended:', outcome.reason, 'winner:', winner?.username || 'draw');
+    
+    this.state.status = GameStatus.FINISHED;
+    this.state.winnerId = outcome.winnerId || '';
+    this.clearTurnTimer();
+    this.state.turnTimeRemaining = 0;
+    this.recordAction(GameActionType.GAME_ENDED, null, { winnerId: outcome.winnerId, reason: outcome.reason });
+    
+    this.broadcast(ServerMessageType.GAME_ENDED, {
+      winnerId: outcome.winnerId,
+      winnerName: winner?.username || null,
+      winningTeam: outcome.winningTeam,
+      winnerIds: outcome.winnerIds,
+      reason: outcome.reason,
+      turnNumber: this.state.turnNumber,
+      standings: outcome.standings,
+    });
+    
+    await this.saveGameState();
+  }
+  
+  private async startGame() {
+    console.log('🎮 Starting game with', this.state.players.size, 'players');
+    
+    this.state.status = GameStatus.IN_PROGRESS;
+    this.state.phase = GamePhase.DEPLOYMENT;
+    this.state.currentPlayerIndex = 0;
+    this.state.currentPlayerId = '';
+    this.state.turnNumber = 1;
+    this.engineSeed = seedFromString(this.gameId);
+    
+    // Give each player a deployment zone and their starting army to place
+    this.playerOrder.forEach((sessionId, playerIndex) => {
+      const player = this.state.players.get(sessionId);
+      if (player) {
+        this.assignDeployment(player, playerIndex);
+        console.log('⚔️ Deployment zone assigned for player:', player.username, 'at index:', playerIndex);
+        
+        // Everyone starts out holding the castle in their deployment zone
+        const homeCastle = this.getHomeCastle(player);
+        const castleTile = homeCastle ? this.getTileAt(homeCastle.x, homeCastle.y) : undefined;
+        if (castleTile) {
+          castleTile.ownerId = player.id;
+        }
+      }
+    });
+    
     this.broadcast(ServerMessageType.GAME_STARTED, {
       gameId: this.state.gameId,
-      currentPlayer: firstPlayer?.id,
-      currentPlayerName: firstPlayer?.username,
+      phase: this.state.phase,
     });
     
     // Send complete game state after start
     console.log('📤 Sending complete game state after start');
-    this.broadcast('manual_state_update', this.getGameStateForClient());
+    this.clients.forEach(client => {
+      if (this.spectators.has(client.sessionId)) return;
+      client.send('manual_state_update', this.getGameStateForClient(client.sessionId));
+    });
     
-    console.log('✅ Game started successfully! Turn order:', this.playerOrder.map(sessionId => {
+    console.log('✅ Game started, deployment phase! Turn order:', this.playerOrder.map(sessionId => {
       const player = this.state.players.get(sessionId);
       return player?.username;
     }));
     
     // Save game state after starting
     await this.saveGameState();
+    
+    // Bots line their army up around the spawn point right away
+    for (const bot of Array.from(this.state.players.values()).filter(player => player.isBot)) {
+      this.autoDeployReserve(bot);
+      bot.deploymentDone = true;
+      this.recordAction(GameActionType.DEPLOYMENT_DONE, bot.id, {});
+    }
+    await this.checkDeploymentComplete();
   }
   
-  private spawnUnitsForPlayer(player: Player, playerIndex: number) {
-    // Spawn 3 units per player at corners/sides of map
-    let spawnX: number, spawnY: number;
-    
-    switch (playerIndex) {
-      case 0: // Top-left
-        spawnX = 1;
-        spawnY = 1;
-        break;
-      case 1: // Top-right
-        spawnX = this.state.mapWidth - 4;
-        spawnY = 1;
-        break;
-      case 2: // Bottom-left
-        spawnX = 1;
-        spawnY = this.state.mapHeight - 4;
-        break;
-      case 3: // Bottom-right
-        spawnX = this.state.mapWidth - 4;
-        spawnY = this.state.mapHeight - 4;
-        break;
-      default: // Additional players in middle edges
-        spawnX = playerIndex % 2 === 0 ? 1 : this.state.mapWidth - 4;
-        spawnY = Math.floor(this.state.mapHeight / 2) - 1;
-        break;
-    }
-    
-    const unitTypes = [UnitType.WARRIOR, UnitType.ARCHER, UnitType.MAGE];
-    
-    for (let i = 0; i < 3; i++) {
-      const unit = new Unit();
-      unit.id = `${player.id}_unit_${i}`;
-      unit.playerId = player.id;
-      unit.type = unitTypes[i];
-      
-      const pos = new ColyseusPosition();
-      pos.x = spawnX + i;
-      pos.y = spawnY;
-      pos.z = 0;
-      unit.position = pos;
-      
-      // Set unit stats based on type
-      switch (unit.type) {
-        case UnitType.WARRIOR:
-          unit.maxHealth = unit.health = 150;
-          unit.attack = 20;
-          unit.defense = 10;
-          unit.movement = 3;
-          unit.range = 1;
-          break;
-        case UnitType.ARCHER:
-          unit.maxHealth = unit.health = 80;
-          unit.attack = 15;
-          unit.defense = 5;
-          unit.movement = 4;
-          unit.range = 3;
-          break;
-        case UnitType.MAGE:
-          unit.maxHealth = unit.health = 60;
-          unit.attack = 25;
-          unit.defense = 3;
-          unit.movement = 2;
-          unit.range = 2;
-          break;
+  private async startBattle() {
+    console.log('⚔️ All players deployed, starting battle');
+    
+    this.state.phase = GamePhase.BATTLE;
+    this.state.currentPlayerIndex = 0;
+    this.state.turnNumber = 1;
+    
+    // Everyone starts with a full chess clock in time bank mode
+    this.state.players.forEach(player => {
+      player.timeBank = this.turnTimeLimit;
+    });
+    
+    // Set first player's action points; in simultaneous turns everyone starts planning at once
+    const firstSessionId = this.playerOrder[0];
+    const firstPlayer = this.isSimultaneous() ? undefined : this.state.players.get(firstSessionId);
+    if (firstPlayer) {
+      firstPlayer.actionPoints = ACTION_POINTS_PER_TURN;
+      this.state.currentPlayerId = firstPlayer.id;
+    } else {
+      this.getPlanningPlayers().forEach(player => {
+        player.actionPoints = ACTION_POINTS_PER_TURN;
+      });
+      this.state.currentPlayerId = '';
+    }
+    this.startTurnTimer();
+    
+    // Everything a replay needs to rebuild the battle from here on
+    this.recordAction(GameActionType.BATTLE_START, null, {
+      state: this.toEngineState(),
+      playerOrder: this.playerOrder.map(sessionId => this.state.players.get(sessionId)?.id || ''),
+    });
+    
+    this.broadcastWithState(ServerMessageType.PHASE_CHANGED, {
+      phase: this.state.phase,
+      currentPlayer: firstPlayer?.id,
+      currentPlayerName: firstPlayer?.username,
+    });
+    
+    await this.saveGameState();
+    this.scheduleBotTurns();
+  }
+  
+  private assignDeployment(player: Player, playerIndex: number) {
+    const spawn = this.spawnPoints[playerIndex] || this.getFallbackSpawnPoint(playerIndex);
+    
+    const pos = new ColyseusPosition();
+    pos.x = spawn.x;
+    pos.y = spawn.y;
+    pos.z = 0;
+    player.spawnPoint = pos;
+    
+    player.reserve.clear();
+    STARTING_ARMY.forEach(unitType => player.reserve.push(unitType));
+    player.deploymentDone = false;
+  }
+  
+  // Used when the map defines fewer spawn points than there are players
+  private getFallbackSpawnPoint(playerIndex: number): GridPoint {
+    const margin = 3;
+    const width = this.state.mapWidth;
+    const height = this.state.mapHeight;
+    const points: GridPoint[] = [
+      { x: margin, y: margin },
+      { x: width - margin - 1, y: height - margin - 1 },
+      { x: width - margin - 1, y: margin },
+      { x: margin, y: height - margin - 1 },
+      { x: Math.floor(width / 2), y: margin },
+      { x: Math.floor(width / 2), y: height - margin - 1 },
+      { x: margin, y: Math.floor(height / 2) },
+      { x: width - margin - 1, y: Math.floor(height / 2) },
+    ];
+    return points[playerIndex % points.length];
+  }
+  
+  private isInDeploymentZone(player: Player, x: number, y: number): boolean {
+    const distance = Math.max(
+      Math.abs(player.spawnPoint.x - x),
+      Math.abs(player.spawnPoint.y - y)
+    );
+    return distance <= this.state.deploymentRadius;
+  }
+  
+  private handleDeployUnit(client: Client, message: DeployUnitPayload) {
+    const player = this.state.players.get(client.sessionId);
+    if (!player) return;
+    
+    const result = this.deployUnit(player, message);
+    if (!result.success) {
+      console.log('❌ Deployment rejected:', result.error.code);
+      client.send(ServerMessageType.ERROR, result.error);
+    }
+  }
+  
+  private deployUnit(player: Player, message: DeployUnitPayload): ActionResult {
+    if (this.state.status !== GameStatus.IN_PROGRESS || this.state.phase !== GamePhase.DEPLOYMENT) {
+      return this.rejectAction(ErrorCode.INVALID_PHASE, 'Units can only be deployed during the deployment phase');
+    }
+    
+    if (player.deploymentDone) {
+      return this.rejectAction(ErrorCode.INVALID_DEPLOYMENT, 'Deployment already finished');
+    }
+    
+    const reserveIndex = player.reserve.indexOf(message?.unitType);
+    if (reserveIndex === -1) {
+      return this.rejectAction(ErrorCode.INVALID_DEPLOYMENT, 'No such unit left to deploy');
+    }
+    
+    const position = message.position;
+    if (!position || !isInBounds(this.getMapBounds(), position.x, position.y)) {
+      return this.rejectAction(ErrorCode.OUT_OF_BOUNDS, 'Target position is outside the map');
+    }
+    
+    if (!this.isInDeploymentZone(player, position.x, position.y)) {
+      return this.rejectAction(ErrorCode.INVALID_DEPLOYMENT, 'Target position is outside your deployment zone');
+    }
+    
+    const tile = this.getTileAt(position.x, position.y);
+    if (!tile || !tile.isWalkable) {
+      return this.rejectAction(ErrorCode.TILE_NOT_WALKABLE, 'Target tile is not walkable');
+    }
+    
+    if (this.getUnitAt(position.x, position.y)) {
+      return this.rejectAction(ErrorCode.TILE_OCCUPIED, 'Target tile is occupied');
+    }
+    
+    player.reserve.splice(reserveIndex, 1);
+    const unit = this.spawnUnit(player, message.unitType, position.x, position.y);
+    this.captureTileUnder(unit);
+    this.recordAction(GameActionType.DEPLOY_UNIT, player.id, { unit: this.toEngineUnit(unit), auto: false });
+    
+    return { success: true };
+  }
+  
+  private async handleRecruitUnit(client: Client, message: RecruitUnitPayload) {
+    const player = this.state.players.get(client.sessionId);
+    if (!player || !this.isPlayerTurn(client.sessionId)) {
+      client.send(ServerMessageType.ERROR, {
+        message: 'Not your turn',
+        code: ErrorCode.NOT_YOUR_TURN,
+      });
+      return;
+    }
+    
+    // Planning players could otherwise buy units that act before the turn resolves
+    const queued = this.isSimultaneous();
+    const result = queued ? this.queueRecruit(player, message) : this.recruitUnit(player, message);
+    if (!result.success) {
+      console.log('❌ Recruitment rejected:', result.error.code);
+      client.send(ServerMessageType.ERROR, result.error);
+      return;
+    }
+    
+    // Only the recruiter is told; everyone else finds out through vision
+    const payload: UnitRecruitedPayload = {
+      unitId: result.unitId,
+      unitType: message.unitType,
+      position: { x: message.position.x, y: message.position.y },
+      goldRemaining: player.gold,
+      queued,
+    };
+    client.send(ServerMessageType.UNIT_RECRUITED, payload);
+    
+    await this.saveGameState();
+  }
+  
+  private validateRecruit(player: Player, message: RecruitUnitPayload): ActionResult {
+    const cost = getRecruitCost(message?.unitType);
+    if (cost === undefined) {
+      return this.rejectAction(ErrorCode.INVALID_RECRUITMENT, 'Unknown unit type');
+    }
+    
+    const position = message.position;
+    const tile = position ? this.getTileAt(position.x, position.y) : undefined;
+    if (!tile || tile.type !== TileType.CASTLE || tile.ownerId !== player.id) {
+      return this.rejectAction(ErrorCode.INVALID_RECRUITMENT, 'Units can only be recruited at a castle you hold');
+    }
+    
+    if (this.getUnitAt(position.x, position.y)) {
+      return this.rejectAction(ErrorCode.TILE_OCCUPIED, 'The castle is occupied');
+    }
+    
+    if (player.gold < cost) {
+      return this.rejectAction(ErrorCode.INSUFFICIENT_GOLD, `Not enough gold (${cost} needed, ${player.gold} available)`);
+    }
+    
+    return { success: true };
+  }
+  
+  private recruitUnit(player: Player, message: RecruitUnitPayload): ActionResult {
+    const check = this.validateRecruit(player, message);
+    if (!check.success) return check;
+    
+    const cost = getRecruitCost(message.unitType)!;
+    const position = message.position;
+    player.gold -= cost;
+    const unit = this.spawnUnit(player, message.unitType, position.x, position.y);
+    // Fresh recruits muster for a turn before they can act
+    unit.hasMoved = true;
+    unit.hasAttacked = true;
+    this.recordAction(GameActionType.RECRUIT_UNIT, player.id, { unit: this.toEngineUnit(unit), cost });
+    this.undoCheckpoints = [];
+    
+    return { success: true, unitId: unit.id };
+  }
+  
+  // Simultaneous turns: the gold is set aside now and the unit musters once the orders resolve
+  private queueRecruit(player: Player, message: RecruitUnitPayload): ActionResult {
+    const check = this.validateRecruit(player, message);
+    if (!check.success) return check;
+    
+    const queued = this.plannedRecruits.get(player.id) ?? [];
+    const { x, y } = message.position;
+    if (queued.some(recruit => recruit.position.x === x && recruit.position.y === y)) {
+      return this.rejectAction(ErrorCode.TILE_OCCUPIED, 'A recruit is already waiting at this castle');
+    }
+    
+    player.gold -= getRecruitCost(message.unitType)!;
+    this.plannedRecruits.set(player.id, [...queued, { unitType: message.unitType, position: { x, y } }]);
+    console.log('🏰 Recruit queued:', message.unitType, 'for', player.username);
+    return { success: true };
+  }
+  
+  // Recruits bought while planning arrive after every order has played out; one whose castle
+  // was lost or blocked in the meantime is refunded
+  private musterPlannedRecruits() {
+    this.playerOrder.forEach(sessionId => {
+      const player = this.state.players.get(sessionId);
+      const recruits = player ? this.plannedRecruits.get(player.id) : undefined;
+      if (!player || !recruits) return;
+      
+      const client = this.clients.find(candidate => candidate.sessionId === sessionId);
+      recruits.forEach(recruit => {
+        player.gold += getRecruitCost(recruit.unitType)!;
+        const result = this.recruitUnit(player, recruit);
+        if (!result.success) {
+          console.log('💨 Recruit refunded:', recruit.unitType, result.error.code);
+          client?.send(ServerMessageType.ERROR, result.error);
+          return;
+        }
+        
+        const payload: UnitRecruitedPayload = {
+          unitId: result.unitId,
+          unitType: recruit.unitType,
+          position: { x: recruit.position.x, y: recruit.position.y },
+          goldRemaining: player.gold,
+        };
+        client?.send(ServerMessageType.UNIT_RECRUITED, payload);
+      });
+    });
+    this.plannedRecruits.clear();
+  }
+  
+  private async handleDeploymentDone(client: Client) {
+    const player = this.state.players.get(client.sessionId);
+    if (!player) return;
+    
+    if (this.state.status !== GameStatus.IN_PROGRESS || this.state.phase !== GamePhase.DEPLOYMENT) {
+      client.send(ServerMessageType.ERROR, {
+        message: 'Not in deployment phase',
+        code: ErrorCode.INVALID_PHASE,
+      });
+      return;
+    }
+    
+    if (player.deploymentDone) return;
+    
+    // Anything the player didn't place is put as close to the spawn point as possible
+    this.autoDeployReserve(player);
+    player.deploymentDone = true;
+    this.recordAction(GameActionType.DEPLOYMENT_DONE, player.id, {});
+    console.log('✅ Deployment done:', player.username);
+    
+    await this.checkDeploymentComplete();
+  }
+  
+  private autoDeployReserve(player: Player) {
+    if (player.reserve.length === 0) return;
+    
+    const radius = this.state.deploymentRadius;
+    const candidates: GridPoint[] = [];
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        candidates.push({ x: player.spawnPoint.x + dx, y: player.spawnPoint.y + dy });
       }
+    }
+    candidates.sort((a, b) =>
+      (Math.abs(a.x - player.spawnPoint.x) + Math.abs(a.y - player.spawnPoint.y)) -
+      (Math.abs(b.x - player.spawnPoint.x) + Math.abs(b.y - player.spawnPoint.y))
+    );
+    
+    for (const point of candidates) {
+      if (player.reserve.length === 0) break;
       
-      this.state.units.set(unit.id, unit);
-      console.log('🛡️ Spawned', unit.type, 'for', player.username, 'at', pos.x, pos.y);
+      const tile = this.getTileAt(point.x, point.y);
+      if (!tile || !tile.isWalkable || this.getUnitAt(point.x, point.y)) continue;
+      
+      const unitType = player.reserve.shift() as UnitType;
+      const unit = this.spawnUnit(player, unitType, point.x, point.y);
+      this.captureTileUnder(unit);
+      this.recordAction(GameActionType.DEPLOY_UNIT, player.id, { unit: this.toEngineUnit(unit), auto: true });
+    }
+    
+    if (player.reserve.length > 0) {
+      console.log('⚠️ No room left to deploy', player.reserve.length, 'units for', player.username);
+      player.reserve.clear();
+    }
+  }
+  
+  // Deploying onto an income tile takes it, just like walking onto it
+  private captureTileUnder(unit: Unit) {
+    const board = this.toEngineState();
+    const events: EngineEvent[] = [];
+    if (captureTile(board, board.units[unit.id], events)) {
+      this.applyEngineState(board);
+      this.logEngineEvents(events);
+    }
+  }
+  
+  private async checkDeploymentComplete() {
+    if (this.playerOrder.length === 0) return;
+    
+    const allDeployed = this.playerOrder.every(sessionId => {
+      const player = this.state.players.get(sessionId);
+      return !player || player.deploymentDone;
+    });
+    
+    if (allDeployed) {
+      await this.startBattle();
     }
   }
   
+  private spawnUnit(player: Player, unitType: UnitType, x: number, y: number): Unit {
+    const unit = new Unit();
+    unit.id = `${player.id}_unit_${this.unitSequence++}`;
+    unit.playerId = player.id;
+    unit.type = unitType;
+    
+    const pos = new ColyseusPosition();
+    pos.x = x;
+    pos.y = y;
+    pos.z = 0;
+    unit.position = pos;
+    
+    const { stats } = getUnitDefinition(unitType)!;
+    unit.maxHealth = unit.health = stats.maxHealth;
+    unit.attack = stats.attack;
+    unit.defense = stats.defense;
+    unit.movement = stats.movement;
+    unit.range = stats.range;
+    unit.minRange = stats.minRange;
+    unit.sight = stats.sight;
+    
+    this.state.units.set(unit.id, unit);
+    console.log('🛡️ Spawned', unit.type, 'for', player.username, 'at', pos.x, pos.y);
+    return unit;
+  }
+  
   private isPlayerTurn(sessionId: string): boolean {
     if (this.state.status !== GameStatus.IN_PROGRESS) return false;
+    if (this.state.phase !== GamePhase.BATTLE) return false;
+    
+    // Everyone who is still planning has the turn in simultaneous mode
+    if (this.isSimultaneous()) {
+      const player = this.state.players.get(sessionId);
+      return !!player && this.playerOrder.includes(sessionId) && !player.ordersSubmitted;
+    }
     
     const currentSessionId = this.playerOrder[this.state.currentPlayerIndex];
     return currentSessionId === sessionId;
   }
 
-  private getGameStateForClient() {
+  private getGameStateForClient(sessionId: string) {
     return {
       gameId: this.state.gameId,
       status: this.state.status,
       phase: this.state.phase,
       turnNumber: this.state.turnNumber,
       currentPlayerIndex: this.state.currentPlayerIndex,
+      currentPlayerId: this.state.currentPlayerId,
+      turnMode: this.state.turnMode,
       mapWidth: this.state.mapWidth,
       mapHeight: this.state.mapHeight,
+      deploymentRadius: this.state.deploymentRadius,
+      turnTimeRemaining: this.state.turnTimeRemaining,
       players: this.getPlayersData(),
-      units: this.getUnitsData(),
+      units: this.getUnitsData(sessionId),
     };
   }
 
@@ -624,46 +1886,450 @@ export class GameRoom extends Room<GameState> {
         id: player.id,
         username: player.username,
         color: player.color,
+        team: player.team,
         isReady: player.isReady,
         isActive: player.isActive,
         actionPoints: player.actionPoints,
+        gold: player.gold,
+        mana: player.mana,
+        spawnPoint: { x: player.spawnPoint.x, y: player.spawnPoint.y },
+        reserve: Array.from(player.reserve),
+        deploymentDone: player.deploymentDone,
+        timeBank: player.timeBank,
+        isBot: player.isBot,
+        botControlled: player.botControlled,
         isCurrentPlayer: this.isPlayerTurn(sessionId)
       };
     });
     return playersData;
   }
 
-  private getUnitsData() {
+  // Own units plus the enemies the client's player can currently see
+  private getUnitsData(sessionId: string) {
+    const vision = this.getVisionFor(sessionId);
     const unitsData = new Map();
     this.state.units.forEach((unit, unitId) => {
-      unitsData.set(unitId, {
-        id: unit.id,
-        playerId: unit.playerId,
-        type: unit.type,
-        position: {
-          x: unit.position.x,
-          y: unit.position.y,
-          z: unit.position.z
-        },
-        health: unit.health,
-        maxHealth: unit.maxHealth,
-        attack: unit.attack,
-        defense: unit.defense,
-        movement: unit.movement,
-        range: unit.range,
-        hasMoved: unit.hasMoved,
-        hasAttacked: unit.hasAttacked,
-        isAlive: unit.isAlive
-      });
+      if (vision.unitIds.has(unitId)) {
+        unitsData.set(unitId, this.getUnitData(unit));
+      }
     });
     return unitsData;
   }
   
-  private getPlayerColor(index: number): string {
-    const colors = ['#FF0000', '#0000FF', '#00FF00', '#FFFF00', '#FF00FF', '#00FFFF', '#FFA500', '#800080'];
-    return colors[index % colors.length];
+  private serializeStatusEffects(unit: Unit): ActiveStatusEffect[] {
+    return unit.effects.map(effect => ({
+      effectId: effect.effectId,
+      turnsRemaining: effect.turnsRemaining,
+      stacks: effect.stacks,
+    }));
   }
-
+  
+  private getUnitData(unit: Unit): UnitView {
+    return {
+      id: unit.id,
+      playerId: unit.playerId,
+      type: unit.type,
+      position: {
+        x: unit.position.x,
+        y: unit.position.y,
+        z: unit.position.z
+      },
+      health: unit.health,
+      maxHealth: unit.maxHealth,
+      attack: unit.attack,
+      defense: unit.defense,
+      movement: unit.movement,
+      range: unit.range,
+      minRange: unit.minRange,
+      sight: unit.sight,
+      effects: this.serializeStatusEffects(unit),
+      cooldowns: Object.fromEntries(unit.cooldowns.entries()),
+      experience: unit.experience,
+      rank: unit.rank,
+      pendingPerks: unit.pendingPerks,
+      perks: unit.perks.toArray(),
+      hasMoved: unit.hasMoved,
+      hasAttacked: unit.hasAttacked,
+      isAlive: unit.isAlive
+    };
+  }
+  
+  // Tiles and units visible to the player behind a session; sessions without a player see nothing.
+  // Pass a board already built when asking for several sessions at once.
+  private getVisionFor(sessionId: string, board: EngineState = this.toEngineState()): PlayerVision {
+    const player = this.state.players.get(sessionId);
+    if (!player) return { tiles: new Set(), unitIds: new Set() };
+    return getPlayerVision(board, player.id);
+  }
+  
+  private isUnitVisibleTo(sessionId: string, unit: Unit): boolean {
+    return this.getVisionFor(sessionId).unitIds.has(unit.id);
+  }
+  
+  // Sends a message carrying the game state, filtered to what each recipient can see
+  private broadcastWithState(type: ServerMessageType, payload: Record<string, unknown>) {
+    this.clients.forEach(client => {
+      if (this.spectators.has(client.sessionId)) return;
+      client.send(type, { ...payload, gameState: this.getGameStateForClient(client.sessionId) });
+    });
+  }
+  
+  // Income tiles keep the owner the player last saw on them. The player's and their allies'
+  // holdings are always known, so is whoever took one of them
+  private updateKnownTileOwners(playerId: string, board: EngineState, visibleTiles: Set<number>): Record<number, string> {
+    const known = this.knownTileOwners.get(playerId) ?? new Map<number, string>();
+    this.knownTileOwners.set(playerId, known);
+    
+    const isFriendly = (ownerId: string | undefined) => !!ownerId && areAllies(board, ownerId, playerId);
+    board.tiles.forEach((tile, index) => {
+      if (!isIncomeTile(tile.type)) return;
+      if (!visibleTiles.has(index) && !isFriendly(tile.ownerId) && !isFriendly(known.get(index))) return;
+      
+      if (tile.ownerId) {
+        known.set(index, tile.ownerId);
+      } else {
+        known.delete(index);
+      }
+    });
+    
+    return Object.fromEntries(known);
+  }
+  
+  // Pushes vision changes to each client alongside the regular state patch
+  onBeforePatch() {
+    this.updateSpectators();
+    if (this.state.status !== GameStatus.IN_PROGRESS) return;
+    
+    const board = this.toEngineState();
+    this.clients.forEach(client => {
+      const player = this.state.players.get(client.sessionId);
+      if (!player) return;
+      
+      const vision = this.getVisionFor(client.sessionId, board);
+      const payload: VisionUpdatePayload = {
+        visibleTiles: Array.from(vision.tiles).sort((a, b) => a - b),
+        units: Array.from(vision.unitIds)
+          .map(unitId => this.state.units.get(unitId)!)
+          .filter(unit => unit.playerId !== player.id)
+          .map(unit => this.getUnitData(unit)),
+        tileOwners: this.updateKnownTileOwners(player.id, board, vision.tiles),
+      };
+      
+      const serialized = JSON.stringify(payload);
+      if (this.lastVisionPayloads.get(client.sessionId) === serialized) return;
+      
+      this.lastVisionPayloads.set(client.sessionId, serialized);
+      client.send(ServerMessageType.VISION_UPDATE, payload);
+    });
+  }
+  
+  // Spectators only watch: they get no Player, no place in the turn order and no units in the
+  // synced state, just a board of their own from updateSpectators
+  private async addSpectator(client: Client, authData: { userId: string; username: string }) {
+    const reason = this.getSpectatingRejection(authData.userId);
+    if (reason) {
+      console.log('❌ Spectator refused:', authData.username, reason);
+      client.send(ServerMessageType.ERROR, { message: reason, code: ErrorCode.SPECTATING_NOT_ALLOWED });
+      client.leave();
+      return;
+    }
+    
+    this.spectators.set(client.sessionId, {
+      userId: authData.userId,
+      username: authData.username,
+      followingPlayerId: null,
+      sentFrame: 0,
+    });
+    this.state.spectatorCount = this.spectators.size;
+    console.log('👁️ Spectator joined:', authData.username, 'Total spectators:', this.spectators.size);
+  }
+  
+  private getSpectatingRejection(userId: string): string | null {
+    if (this.isPrivate) return 'Private games cannot be watched';
+    if (this.state.status !== GameStatus.IN_PROGRESS) return 'Only running games can be watched';
+    if (this.spectators.size >= MAX_SPECTATORS) return 'Too many spectators';
+    // Seeing the whole map would be ghosting for anyone with units on it
+    if (Array.from(this.state.players.values()).some(player => player.id === userId)) {
+      return 'Players cannot watch their own game';
+    }
+    return null;
+  }
+  
+  private handleSpectatePlayer(client: Client, message: SpectatePlayerPayload) {
+    const spectator = this.spectators.get(client.sessionId);
+    if (!spectator) return;
+    
+    const playerId = message?.playerId ?? null;
+    if (playerId && !Array.from(this.state.players.values()).some(player => player.id === playerId)) {
+      client.send(ServerMessageType.ERROR, { message: 'Player not found', code: ErrorCode.INVALID_ACTION });
+      return;
+    }
+    
+    spectator.followingPlayerId = playerId;
+    spectator.sentFrame = 0; // Resend the current frame through the new eyes
+  }
+  
+  // Captures the board whenever it changed and gives every spectator the newest board that
+  // is at least the spectator delay old
+  private updateSpectators() {
+    if (this.spectators.size === 0 || this.state.status === GameStatus.WAITING) return;
+    
+    const now = Date.now();
+    const state = this.toEngineState();
+    const board = JSON.stringify([state, this.state.turnNumber, this.state.currentPlayerId, this.state.phase]);
+    if (board !== this.lastSpectatorBoard) {
+      this.lastSpectatorBoard = board;
+      this.spectatorFrames.push({
+        id: ++this.spectatorFrameSequence,
+        capturedAt: now,
+        state,
+        turnNumber: this.state.turnNumber,
+        currentPlayerId: this.state.currentPlayerId,
+        phase: this.state.phase as GamePhase,
+      });
+    }
+    
+    // Only the newest frame that is old enough is still needed
+    const releasedBefore = now - this.spectatorDelay * 1000;
+    while (this.spectatorFrames.length > 1 && this.spectatorFrames[1].capturedAt <= releasedBefore) {
+      this.spectatorFrames.shift();
+    }
+    const frame = this.spectatorFrames[0];
+    if (!frame || frame.capturedAt > releasedBefore) return;
+    
+    this.clients.forEach(client => {
+      const spectator = this.spectators.get(client.sessionId);
+      if (!spectator || spectator.sentFrame === frame.id) return;
+      
+      spectator.sentFrame = frame.id;
+      const payload: SpectatorUpdatePayload = {
+        ...getSpectatorView(frame.state, spectator.followingPlayerId),
+        followingPlayerId: spectator.followingPlayerId,
+        turnNumber: frame.turnNumber,
+        currentPlayerId: frame.currentPlayerId,
+        phase: frame.phase,
+        delay: this.spectatorDelay,
+      };
+      client.send(ServerMessageType.SPECTATOR_UPDATE, payload);
+    });
+  }
+  
+  private sendToSpectators(type: ServerMessageType, payload: Record<string, unknown>) {
+    this.clients.forEach(client => {
+      if (this.spectators.has(client.sessionId)) client.send(type, payload);
+    });
+  }
+  
+  // Turn progress is live information; spectators only learn it from delayed spectator updates
+  private broadcastToPlayers(type: ServerMessageType, payload: Record<string, unknown>) {
+    this.clients.forEach(client => {
+      if (!this.spectators.has(client.sessionId)) client.send(type, payload);
+    });
+  }
+  
+  // Brings the room's bots in line with the bot seats of the lobby: new bots take a place in
+  // the turn order, bots whose seat a human took over leave
+  private async syncBotSeats() {
+    if (this.state.status !== GameStatus.WAITING) return;
+    
+    let seats: { id: string; botDifficulty: string | null; playerIndex: number; team: number; color: string }[];
+    try {
+      seats = await db.query.gamePlayers.findMany({
+        where: and(eq(gamePlayers.gameId, this.gameId), isNotNull(gamePlayers.botDifficulty)),
+      });
+    } catch (error) {
+      console.error('❌ Failed to load bot seats:', error);
+      return;
+    }
+    
+    const seatSessions = new Set(seats.map(seat => BOT_SESSION_PREFIX + seat.id));
+    Array.from(this.state.players.entries()).forEach(([sessionId, player]) => {
+      if (!player.isBot || seatSessions.has(sessionId)) return;
+      console.log('🤖 Bot replaced by a human:', player.username);
+      this.state.players.delete(sessionId);
+      this.playerOrder = this.playerOrder.filter(other => other !== sessionId);
+    });
+    
+    seats.forEach(seat => {
+      const sessionId = BOT_SESSION_PREFIX + seat.id;
+      if (this.state.players.has(sessionId)) return;
+      
+      const bot = new Player();
+      bot.id = seat.id;
+      bot.isBot = true;
+      bot.botDifficulty = seat.botDifficulty || BotDifficulty.NORMAL;
+      bot.username = getBotName(bot.botDifficulty as BotDifficulty, seat.playerIndex);
+      bot.team = seat.team;
+      bot.color = seat.color;
+      bot.isReady = true;
+      
+      this.state.players.set(sessionId, bot);
+      this.playerOrder.push(sessionId);
+      console.log('🤖 Bot took a seat:', bot.username);
+    });
+  }
+  
+  // Bots start acting a moment after their turn begins
+  private scheduleBotTurns() {
+    this.state.players.forEach(player => this.scheduleBotTurn(player));
+  }
+  
+  private scheduleBotTurn(player: Player) {
+    if (this.state.status !== GameStatus.IN_PROGRESS || this.state.phase !== GamePhase.BATTLE) return;
+    if (!this.isBotControlled(player)) return;
+    
+    if (this.isSimultaneous()) {
+      if (player.ordersSubmitted || !this.getPlanningPlayers().includes(player)) return;
+      this.clock.setTimeout(() => this.submitBotOrders(player), BOT_ACTION_DELAY_MS);
+    } else if (this.getCurrentPlayer() === player) {
+      this.clock.setTimeout(() => this.takeBotAction(player, new Set()), BOT_ACTION_DELAY_MS);
+    }
+  }
+  
+  private isBotControlled(player: Player): boolean {
+    return player.isBot || player.botControlled;
+  }
+  
+  // Bots have no client; a disconnected human keeps the session they left from
+  private getSessionIdOf(player: Player): string {
+    return player.isBot ? BOT_SESSION_PREFIX + player.id : this.userIdToSessionId.get(player.id) || '';
+  }
+  
+  private getBotDifficulty(player: Player): BotDifficulty {
+    return player.isBot ? player.botDifficulty as BotDifficulty : TAKEOVER_BOT_DIFFICULTY;
+  }
+  
+  // Disconnected players whose turns are skipped rather than played
+  private isSkippingTurns(player: Player): boolean {
+    return !player.isBot && this.disconnectPolicy === DisconnectPolicy.SKIP_TURN;
+  }
+  
+  // One action per call, through the same checks as a client's; the bot ends its turn once
+  // it sees nothing worth doing. Units the room refused are not tried again this turn.
+  // Stops as soon as a returning player takes their turn back.
+  private async takeBotAction(bot: Player, exhausted: Set<string>) {
+    const sessionId = this.getSessionIdOf(bot);
+    if (!this.isBotControlled(bot) || !this.isPlayerTurn(sessionId) || this.isSimultaneous()) return;
+    
+    if (this.isSkippingTurns(bot)) {
+      await this.endCurrentTurn(bot);
+      return;
+    }
+    
+    await this.chooseBotPerks(bot);
+    const view = getBotView(this.toEngineState(), bot.id);
+    const action = chooseBotAction(view, bot.id, this.getBotDifficulty(bot), exhausted);
+    if (!action) {
+      await this.endCurrentTurn(bot);
+      return;
+    }
+    
+    const error = await this.performUnitAction(sessionId, action);
+    if (error) {
+      console.log('🤖 Bot action refused:', bot.username, action.type, error.code);
+      exhausted.add(action.unitId);
+    }
+    this.clock.setTimeout(() => this.takeBotAction(bot, exhausted), BOT_ACTION_DELAY_MS);
+  }
+  
+  private async submitBotOrders(bot: Player) {
+    const sessionId = this.getSessionIdOf(bot);
+    if (!this.isBotControlled(bot) || !this.isPlayerTurn(sessionId)) return;
+    
+    if (this.isSkippingTurns(bot)) {
+      await this.performSubmitOrders(sessionId, []);
+      return;
+    }
+    
+    await this.chooseBotPerks(bot);
+    const orders = planBotTurn(this.toEngineState(), bot.id, this.getBotDifficulty(bot));
+    await this.performSubmitOrders(sessionId, orders);
+  }
+  
+  // Bots take the first perk on offer for every promotion
+  private async chooseBotPerks(bot: Player) {
+    for (const unit of Array.from(this.state.units.values())) {
+      if (unit.playerId !== bot.id || unit.pendingPerks <= 0) continue;
+      const perk = getAvailablePerks(unit.range, unit.perks.toArray())[0];
+      if (perk) await this.performChoosePerk(this.getSessionIdOf(bot), unit.id, perk.id);
+    }
+  }
+  
+  private scheduleTakeover(player: Player) {
+    this.cancelTakeover(player.id);
+    this.takeoverTimers.set(player.id, this.clock.setTimeout(
+      () => this.takeOver(player),
+      this.disconnectGracePeriod * 1000
+    ));
+  }
+  
+  private cancelTakeover(playerId: string) {
+    this.takeoverTimers.get(playerId)?.clear();
+    this.takeoverTimers.delete(playerId);
+  }
+  
+  // The grace period ran out: the server plays (or skips) the player's turns until they return
+  private async takeOver(player: Player) {
+    this.takeoverTimers.delete(player.id);
+    if (player.isActive || player.botControlled || this.state.status !== GameStatus.IN_PROGRESS) return;
+    if (!this.state.players.has(this.getSessionIdOf(player))) return;
+    
+    console.log('🤖 Taking over for disconnected player:', player.username, this.disconnectPolicy);
+    player.botControlled = true;
+    this.broadcastControlChanged(player);
+    
+    if (this.state.phase === GamePhase.DEPLOYMENT) {
+      if (!player.deploymentDone) {
+        this.autoDeployReserve(player);
+        player.deploymentDone = true;
+        this.recordAction(GameActionType.DEPLOYMENT_DONE, player.id, {});
+        await this.checkDeploymentComplete();
+      }
+      return;
+    }
+    
+    this.scheduleBotTurn(player);
+    await this.saveGameState();
+  }
+  
+  // A reconnecting player gets their units back; a bot turn in progress stops after its current action
+  private returnControl(player: Player) {
+    this.cancelTakeover(player.id);
+    if (!player.botControlled) return;
+    
+    console.log('🎮 Control returned to:', player.username);
+    player.botControlled = false;
+    this.broadcastControlChanged(player);
+  }
+  
+  private broadcastControlChanged(player: Player) {
+    const payload: ControlChangedPayload = {
+      playerId: player.id,
+      username: player.username,
+      takenOver: player.botControlled,
+      policy: this.disconnectPolicy,
+    };
+    this.broadcast(ServerMessageType.CONTROL_CHANGED, payload);
+  }
+  
+  // Team and colour picked in the lobby; players without a lobby seat join the emptiest team
+  private async loadLobbySeat(userId: string): Promise<{ team: number; color: string }> {
+    const players = Array.from(this.state.players.values());
+    
+    try {
+      const seat = await db.query.gamePlayers.findFirst({
+        where: and(eq(gamePlayers.gameId, this.gameId), eq(gamePlayers.userId, userId)),
+      });
+      if (seat) return { team: seat.team, color: seat.color };
+    } catch (error) {
+      console.error('❌ Failed to load lobby seat:', error);
+    }
+    
+    const team = assignTeam(this.teamFormat, MAX_PLAYERS, players.map(player => player.team));
+    const takenColors = players.filter(player => player.team === team).map(player => player.color);
+    return { team, color: getTeamColor(this.teamFormat, team, takenColors) };
+  }
+  
   // Serialize game state for DB persistence
   private serializeGameState() {
     const players: any = {};
@@ -672,9 +2338,20 @@ export class GameRoom extends Room<GameState> {
         id: player.id,
         username: player.username,
         color: player.color,
+        team: player.team,
         isReady: player.isReady,
         isActive: player.isActive,
         actionPoints: player.actionPoints,
+        gold: player.gold,
+        mana: player.mana,
+        spawnPoint: { x: player.spawnPoint.x, y: player.spawnPoint.y },
+        reserve: Array.from(player.reserve),
+        deploymentDone: player.deploymentDone,
+        timeBank: player.timeBank,
+        ordersSubmitted: player.ordersSubmitted,
+        isBot: player.isBot,
+        botDifficulty: player.botDifficulty,
+        botControlled: player.botControlled,
       };
     });
 
@@ -695,6 +2372,14 @@ export class GameRoom extends Room<GameState> {
         defense: unit.defense,
         movement: unit.movement,
         range: unit.range,
+        minRange: unit.minRange,
+        sight: unit.sight,
+        effects: this.serializeStatusEffects(unit),
+        cooldowns: Object.fromEntries(unit.cooldowns.entries()),
+        experience: unit.experience,
+        rank: unit.rank,
+        pendingPerks: unit.pendingPerks,
+        perks: Array.from(unit.perks),
         hasMoved: unit.hasMoved,
         hasAttacked: unit.hasAttacked,
         isAlive: unit.isAlive,
@@ -706,12 +2391,21 @@ export class GameRoom extends Room<GameState> {
       status: this.state.status,
       phase: this.state.phase,
       currentPlayerIndex: this.state.currentPlayerIndex,
+      currentPlayerId: this.state.currentPlayerId,
       turnNumber: this.state.turnNumber,
       mapWidth: this.state.mapWidth,
       mapHeight: this.state.mapHeight,
       players,
       units,
       playerOrder: this.playerOrder,
+      unitSequence: this.unitSequence,
+      engineSeed: this.engineSeed,
+      plannedOrders: Object.fromEntries(this.plannedOrders),
+      plannedRecruits: Object.fromEntries(this.plannedRecruits),
+      winnerId: this.state.winnerId,
+      turnTimeRemaining: this.state.turnTimeRemaining,
+      eliminatedPlayers: this.eliminatedPlayers,
+      tileOwners: this.getTileOwners(),
       userIdToSessionId: Object.fromEntries(this.userIdToSessionId),
       timestamp: Date.now(),
     };
@@ -729,20 +2423,38 @@ export class GameRoom extends Room<GameState> {
       this.state.status = serializedState.status;
       this.state.phase = serializedState.phase;
       this.state.currentPlayerIndex = serializedState.currentPlayerIndex;
+      this.state.currentPlayerId = serializedState.currentPlayerId || '';
       this.state.turnNumber = serializedState.turnNumber;
+      this.state.winnerId = serializedState.winnerId || '';
+      this.state.turnTimeRemaining = serializedState.turnTimeRemaining || 0;
       this.state.mapWidth = serializedState.mapWidth;
       this.state.mapHeight = serializedState.mapHeight;
 
       // Restore players
       this.state.players.clear();
-      Object.entries(serializedState.players).forEach(([sessionId, playerData]: [string, any]) => {
+      Object.entries(serializedState.players).forEach(([sessionId, playerData]: [string, any], playerIndex) => {
         const player = new Player();
         player.id = playerData.id;
         player.username = playerData.username;
         player.color = playerData.color;
+        // Saves from before teams were free-for-all, so everyone gets a team of their own
+        player.team = playerData.team ?? playerIndex;
         player.isReady = playerData.isReady;
         player.isActive = playerData.isActive;
         player.actionPoints = playerData.actionPoints;
+        player.gold = playerData.gold ?? player.gold;
+        player.mana = playerData.mana ?? player.mana;
+        if (playerData.spawnPoint) {
+          player.spawnPoint.x = playerData.spawnPoint.x;
+          player.spawnPoint.y = playerData.spawnPoint.y;
+        }
+        (playerData.reserve || []).forEach((unitType: string) => player.reserve.push(unitType));
+        player.deploymentDone = !!playerData.deploymentDone;
+        player.timeBank = playerData.timeBank || 0;
+        player.ordersSubmitted = !!playerData.ordersSubmitted;
+        player.isBot = !!playerData.isBot;
+        player.botDifficulty = playerData.botDifficulty || '';
+        player.botControlled = !!playerData.botControlled;
         this.state.players.set(sessionId, player);
       });
 
@@ -766,6 +2478,22 @@ export class GameRoom extends Room<GameState> {
         unit.defense = unitData.defense;
         unit.movement = unitData.movement;
         unit.range = unitData.range;
+        unit.minRange = unitData.minRange ?? 1;
+        unit.sight = unitData.sight ?? getUnitDefinition(unit.type)?.stats.sight ?? unit.sight;
+        (unitData.effects || []).forEach((effectData: ActiveStatusEffect) => {
+          const effect = new StatusEffect();
+          effect.effectId = effectData.effectId;
+          effect.turnsRemaining = effectData.turnsRemaining;
+          effect.stacks = effectData.stacks;
+          unit.effects.push(effect);
+        });
+        Object.entries(unitData.cooldowns || {}).forEach(([abilityId, turns]) => {
+          unit.cooldowns.set(abilityId, turns as number);
+        });
+        unit.experience = unitData.experience || 0;
+        unit.rank = unitData.rank || 0;
+        unit.pendingPerks = unitData.pendingPerks || 0;
+        (unitData.perks || []).forEach((perkId: string) => unit.perks.push(perkId));
         unit.hasMoved = unitData.hasMoved;
         unit.hasAttacked = unitData.hasAttacked;
         unit.isAlive = unitData.isAlive;
@@ -775,6 +2503,16 @@ export class GameRoom extends Room<GameState> {
 
       // Restore internal state
       this.playerOrder = serializedState.playerOrder || [];
+      this.unitSequence = serializedState.unitSequence ?? this.getHighestUnitIndex() + 1;
+      this.engineSeed = serializedState.engineSeed ?? seedFromString(this.state.gameId);
+      // Orders and paid-for recruits of a simultaneous turn still being planned
+      this.plannedOrders = new Map(Object.entries(serializedState.plannedOrders || {}));
+      this.plannedRecruits = new Map(Object.entries(serializedState.plannedRecruits || {}));
+      this.eliminatedPlayers = (serializedState.eliminatedPlayers || []).map((player: any, index: number) => ({
+        ...player,
+        team: player.team ?? -1 - index,
+      }));
+      this.savedTileOwners = serializedState.tileOwners || {};
       this.userIdToSessionId = new Map(Object.entries(serializedState.userIdToSessionId || {}));
 
       console.log('✅ Game state restored successfully');
@@ -785,6 +2523,16 @@ export class GameRoom extends Room<GameState> {
     }
   }
 
+  // Older saves have no unit sequence, so derive it from the existing unit IDs
+  private getHighestUnitIndex(): number {
+    let highest = -1;
+    this.state.units.forEach(unit => {
+      const index = Number(unit.id.split('_unit_')[1]);
+      if (Number.isInteger(index)) highest = Math.max(highest, index);
+    });
+    return highest;
+  }
+
   // Save game state to DB
   private async saveGameState() {
     if (!this.gameId) return;
@@ -798,6 +2546,7 @@ export class GameRoom extends Room<GameState> {
           phase: this.state.phase,
           currentPlayerIndex: this.state.currentPlayerIndex,
           turnNumber: this.state.turnNumber,
+          winnerId: this.state.winnerId || null,
           gameState: serializedState,
           lastStateUpdate: new Date(),
           colyseusRoomId: this.roomId,
@@ -811,6 +2560,133 @@ export class GameRoom extends Room<GameState> {
     }
   }
 
+  // Appends an accepted action to the game's log. Writes are not awaited; the sequence
+  // number is taken up front so the log keeps its order regardless of when they land.
+  private recordAction<T extends GameActionType>(type: T, playerId: string | null, payload: GameActionPayloads[T]) {
+    if (!this.gameId) return;
+    
+    const sequence = this.actionSequence++;
+    db.insert(gameActions)
+      .values({
+        gameId: this.gameId,
+        sequence,
+        turnNumber: this.state.turnNumber,
+        playerId,
+        type,
+        payload,
+      })
+      .catch(error => {
+        console.error('❌ Failed to record game action:', type, sequence, error);
+      });
+  }
+  
+  // A restored room continues the log where the previous one stopped
+  private async loadNextActionSequence(): Promise<number> {
+    if (!this.gameId) return 0;
+    
+    try {
+      const [row] = await db.select({ last: max(gameActions.sequence) })
+        .from(gameActions)
+        .where(eq(gameActions.gameId, this.gameId));
+      return row?.last != null ? row.last + 1 : 0;
+    } catch (error) {
+      console.error('❌ Failed to load action log position:', error);
+      return 0;
+    }
+  }
+  
+  // Load the game's settings and map, and sync the map tiles into the room state
+  private async loadGameConfig() {
+    let tileData: unknown = undefined;
+
+    try {
+      const gameData = await db.query.games.findFirst({
+        where: eq(games.id, this.gameId),
+        with: { map: true },
+      });
+
+      const settings = (gameData?.settings || {}) as Partial<GameSettings>;
+      if (settings.rangeMetric === 'chebyshev' || settings.rangeMetric === 'manhattan') {
+        this.state.rangeMetric = settings.rangeMetric;
+      }
+      if (Array.isArray(settings.victoryConditions) && settings.victoryConditions.length > 0) {
+        const known = Object.values(VictoryCondition) as string[];
+        this.victoryConditions = settings.victoryConditions.filter(condition => known.includes(condition));
+      }
+      if (typeof settings.turnLimit === 'number' && settings.turnLimit > 0) {
+        this.turnLimit = settings.turnLimit;
+      }
+      if (typeof settings.counterDamageMultiplier === 'number' && settings.counterDamageMultiplier >= 0) {
+        this.state.counterDamageMultiplier = Math.min(1, settings.counterDamageMultiplier);
+      }
+      if (typeof settings.turnTimeLimit === 'number' && settings.turnTimeLimit > 0) {
+        this.turnTimeLimit = Math.floor(settings.turnTimeLimit);
+      }
+      this.teamFormat = getTeamFormat(settings.teamFormat);
+      if (settings.turnMode === TurnMode.SIMULTANEOUS) {
+        this.state.turnMode = TurnMode.SIMULTANEOUS;
+      }
+      if (settings.turnTimerMode === TurnTimerMode.TIME_BANK) {
+        this.turnTimerMode = TurnTimerMode.TIME_BANK;
+      }
+      if (typeof settings.timeBankIncrement === 'number' && settings.timeBankIncrement > 0) {
+        this.timeBankIncrement = Math.floor(settings.timeBankIncrement);
+      }
+      this.isPrivate = settings.isPrivate === true;
+      if (typeof settings.spectatorDelay === 'number' && settings.spectatorDelay > 0) {
+        this.spectatorDelay = Math.floor(settings.spectatorDelay);
+      }
+      if (typeof settings.reconnectionWindow === 'number' && settings.reconnectionWindow >= 0) {
+        this.reconnectionWindow = Math.floor(settings.reconnectionWindow);
+      }
+      if (typeof settings.disconnectGracePeriod === 'number' && settings.disconnectGracePeriod >= 0) {
+        this.disconnectGracePeriod = Math.floor(settings.disconnectGracePeriod);
+      }
+      if (settings.disconnectPolicy === DisconnectPolicy.SKIP_TURN) {
+        this.disconnectPolicy = DisconnectPolicy.SKIP_TURN;
+      }
+
+      if (gameData?.map) {
+        this.state.mapWidth = gameData.map.width;
+        this.state.mapHeight = gameData.map.height;
+        tileData = gameData.map.tileData;
+        this.spawnPoints = this.parseSpawnPoints(gameData.map.spawnPoints);
+        console.log('🗺️ Loaded map:', gameData.map.name, `${gameData.map.width}x${gameData.map.height}`);
+      } else {
+        console.log('⚠️ No map found for game, using blank terrain');
+      }
+    } catch (error) {
+      console.error('❌ Failed to load map terrain:', error);
+    }
+
+    this.state.tiles.clear();
+    buildTileGrid(this.state.mapWidth, this.state.mapHeight, tileData).forEach(tile => {
+      this.state.tiles.push(tile);
+    });
+    
+    Object.entries(this.savedTileOwners).forEach(([index, ownerId]) => {
+      const tile = this.state.tiles[Number(index)];
+      if (tile) tile.ownerId = ownerId;
+    });
+  }
+  
+  private getTileOwners(): Record<string, string> {
+    const owners: Record<string, string> = {};
+    this.state.tiles.forEach((tile, index) => {
+      if (tile.ownerId) owners[index] = tile.ownerId;
+    });
+    return owners;
+  }
+
+  private parseSpawnPoints(spawnPoints: unknown): GridPoint[] {
+    if (!Array.isArray(spawnPoints)) return [];
+    
+    return spawnPoints
+      .filter((point: any) => point && Number.isInteger(point.x) && Number.isInteger(point.y))
+      .filter((point: any) => isInBounds(this.getMapBounds(), point.x, point.y))
+      .map((point: any) => ({ x: point.x, y: point.y }));
+  }
+
   // Load game state from DB
   private async loadGameState(): Promise<boolean> {
     if (!this.gameId) return false;
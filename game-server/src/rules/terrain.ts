@@ -0,0 +1,54 @@
+import { TileType } from '@tbs/shared';
+import { Tile, Position } from '../schemas/GameState';
+
+export interface TerrainProperties {
+  isWalkable: boolean;
+  movementCost: number;
+  defenseBonus: number;
+}
+
+// Fallback values for tiles whose stored data is missing a field
+export const TERRAIN_PROPERTIES: Record<TileType, TerrainProperties> = {
+  [TileType.GRASS]: { isWalkable: true, movementCost: 1, defenseBonus: 0 },
+  [TileType.FOREST]: { isWalkable: true, movementCost: 2, defenseBonus: 1 },
+  [TileType.MOUNTAIN]: { isWalkable: false, movementCost: 3, defenseBonus: 2 },
+  [TileType.WATER]: { isWalkable: false, movementCost: 1, defenseBonus: 0 },
+  [TileType.ROAD]: { isWalkable: true, movementCost: 1, defenseBonus: 0 },
+  [TileType.CASTLE]: { isWalkable: true, movementCost: 1, defenseBonus: 3 },
+  [TileType.VILLAGE]: { isWalkable: true, movementCost: 1, defenseBonus: 1 },
+};
+
+const TILE_TYPES = new Set<string>(Object.values(TileType));
+
+export function createTile(x: number, y: number, data?: any): Tile {
+  const type: TileType = data && TILE_TYPES.has(data.type) ? data.type : TileType.GRASS;
+  const defaults = TERRAIN_PROPERTIES[type];
+
+  const tile = new Tile();
+  const position = new Position();
+  position.x = x;
+  position.y = y;
+  position.z = 0;
+  tile.position = position;
+  tile.type = type;
+  tile.isWalkable = typeof data?.isWalkable === 'boolean' ? data.isWalkable : defaults.isWalkable;
+  tile.movementCost = typeof data?.movementCost === 'number' ? data.movementCost : defaults.movementCost;
+  tile.defenseBonus = typeof data?.defenseBonus === 'number' ? data.defenseBonus : defaults.defenseBonus;
+  return tile;
+}
+
+// Converts the `maps.tileData` JSON ([y][x]) into a row-major tile list.
+// Passing no data produces an all-grass board.
+export function buildTileGrid(width: number, height: number, tileData?: unknown): Tile[] {
+  const rows = Array.isArray(tileData) ? tileData : [];
+  const tiles: Tile[] = [];
+
+  for (let y = 0; y < height; y++) {
+    const row = Array.isArray(rows[y]) ? rows[y] : [];
+    for (let x = 0; x < width; x++) {
+      tiles.push(createTile(x, y, row[x]));
+    }
+  }
+
+  return tiles;
+}
@@ -0,0 +1,139 @@
+import { GridPoint, PlayerStanding, VictoryCondition } from '@tbs/shared';
+
+export interface VictoryUnit {
+  health: number;
+  position: GridPoint;
+}
+
+export interface VictoryPlayer {
+  id: string;
+  username: string;
+  team: number; // Teammates win and lose together
+  units: VictoryUnit[];
+  homeCastle: GridPoint | null;
+  eliminated: boolean; // Left the game before it ended
+}
+
+export interface VictoryCheck {
+  conditions: VictoryCondition[];
+  players: VictoryPlayer[];
+  turnNumber: number;
+  turnLimit?: number;
+}
+
+export interface VictoryOutcome {
+  winnerId: string | null; // Best placed player of the winning team
+  winningTeam: number | null;
+  winnerIds: string[];
+  reason: VictoryCondition;
+  standings: PlayerStanding[];
+}
+
+export const DEFAULT_VICTORY_CONDITIONS: VictoryCondition[] = [VictoryCondition.LAST_ARMY_STANDING];
+
+// Remaining health of a player's army
+export function calculateScore(player: VictoryPlayer): number {
+  return player.units.reduce((total, unit) => total + Math.max(0, unit.health), 0);
+}
+
+export function calculateStandings(players: VictoryPlayer[], winningTeam: number | null): PlayerStanding[] {
+  const ranked = [...players].sort((a, b) => {
+    if (a.team !== b.team && a.team === winningTeam) return -1;
+    if (a.team !== b.team && b.team === winningTeam) return 1;
+    if (a.eliminated !== b.eliminated) return a.eliminated ? 1 : -1;
+    return calculateScore(b) - calculateScore(a);
+  });
+
+  return ranked.map((player, index) => ({
+    playerId: player.id,
+    username: player.username,
+    team: player.team,
+    rank: index + 1,
+    score: calculateScore(player),
+    unitsRemaining: player.units.length,
+    isWinner: player.team === winningTeam,
+    eliminated: player.eliminated,
+  }));
+}
+
+function isAlive(player: VictoryPlayer): boolean {
+  return !player.eliminated && player.units.length > 0;
+}
+
+function getTeams(players: VictoryPlayer[]): number[] {
+  return Array.from(new Set(players.map(player => player.team)));
+}
+
+function checkLastArmyStanding(players: VictoryPlayer[]): number | null | undefined {
+  // Nothing to win when only one side ever took part
+  if (getTeams(players).length < 2) return undefined;
+
+  const survivors = getTeams(players.filter(isAlive));
+  if (survivors.length > 1) return undefined;
+  return survivors.length === 1 ? survivors[0] : null;
+}
+
+function checkCastleCapture(players: VictoryPlayer[]): number | undefined {
+  for (const attacker of players.filter(isAlive)) {
+    const captured = players.some(defender =>
+      defender.team !== attacker.team &&
+      !defender.eliminated &&
+      defender.homeCastle !== null &&
+      attacker.units.some(unit =>
+        unit.position.x === defender.homeCastle!.x && unit.position.y === defender.homeCastle!.y
+      )
+    );
+    if (captured) return attacker.team;
+  }
+  return undefined;
+}
+
+// Teams are ranked by the combined remaining health of their armies
+function checkTurnLimit(check: VictoryCheck): number | null | undefined {
+  if (!check.turnLimit || check.turnNumber <= check.turnLimit) return undefined;
+
+  const remaining = check.players.filter(p => !p.eliminated);
+  const ranked = getTeams(remaining)
+    .map(team => ({
+      team,
+      score: remaining.filter(p => p.team === team).reduce((total, p) => total + calculateScore(p), 0),
+    }))
+    .sort((a, b) => b.score - a.score);
+  if (ranked.length === 0) return null;
+  // Equal top scores end in a draw
+  if (ranked.length > 1 && ranked[0].score === ranked[1].score) return null;
+  return ranked[0].team;
+}
+
+// Returns the outcome once any enabled condition is met, otherwise null
+export function checkVictory(check: VictoryCheck): VictoryOutcome | null {
+  for (const condition of check.conditions) {
+    let winningTeam: number | null | undefined;
+
+    switch (condition) {
+      case VictoryCondition.LAST_ARMY_STANDING:
+        winningTeam = checkLastArmyStanding(check.players);
+        break;
+      case VictoryCondition.CAPTURE_CASTLE:
+        winningTeam = checkCastleCapture(check.players);
+        break;
+      case VictoryCondition.TURN_LIMIT:
+        winningTeam = checkTurnLimit(check);
+        break;
+    }
+
+    if (winningTeam !== undefined) {
+      const standings = calculateStandings(check.players, winningTeam);
+      const winnerIds = standings.filter(standing => standing.isWinner).map(standing => standing.playerId);
+      return {
+        winnerId: winnerIds[0] ?? null,
+        winningTeam,
+        winnerIds,
+        reason: condition,
+        standings,
+      };
+    }
+  }
+
+  return null;
+}
@@ -1,21 +1,41 @@
-import { Schema, MapSchema, ArraySchema, type } from '@colyseus/schema';
-import { GameStatus, GamePhase, UnitType } from '@tbs/shared';
+import { Schema, MapSchema, ArraySchema, type, filter, filterChildren } from '@colyseus/schema';
+import { GameStatus, GamePhase, UnitType, TurnMode, RangeMetric, ACTION_POINTS_PER_TURN, DEFAULT_COUNTER_DAMAGE_MULTIPLIER } from '@tbs/shared';
+
+// Spectators are never in the players map; they follow the game through delayed spectator updates
+function isPlayerClient(this: GameState, client: { sessionId: string }, _value: unknown, root: GameState): boolean {
+  return root.players.has(client.sessionId);
+}
+
+export class Position extends Schema {
+  @type('number') x: number = 0;
+  @type('number') y: number = 0;
+  @type('number') z: number = 0;
+}
 
 export class Player extends Schema {
   @type('string') id: string = '';
   @type('string') username: string = '';
   @type('string') color: string = '';
+  @type('number') team: number = 0; // Teammates share vision and victory
   @type('boolean') isReady: boolean = false;
   @type('boolean') isActive: boolean = true;
   @type('number') gold: number = 1000;
   @type('number') mana: number = 100;
-  @type('number') actionPoints: number = 3;
+  @type('number') actionPoints: number = ACTION_POINTS_PER_TURN;
+  @type(Position) spawnPoint: Position = new Position();
+  @type(['string']) reserve = new ArraySchema<string>(); // Unit types still waiting to be deployed
+  @type('boolean') deploymentDone: boolean = false;
+  @type('number') timeBank: number = 0; // Seconds left on the chess clock in time bank mode
+  @type('boolean') ordersSubmitted: boolean = false; // Simultaneous turns: done planning this turn
+  @type('boolean') isBot: boolean = false; // Played by the server, never has a client
+  @type('string') botDifficulty: string = '';
+  @type('boolean') botControlled: boolean = false; // A human's turns are played for them while they are disconnected
 }
 
-export class Position extends Schema {
-  @type('number') x: number = 0;
-  @type('number') y: number = 0;
-  @type('number') z: number = 0;
+export class StatusEffect extends Schema {
+  @type('string') effectId: string = '';
+  @type('number') turnsRemaining: number = 0; // Owner turn starts left before it wears off
+  @type('number') stacks: number = 1;
 }
 
 export class Unit extends Schema {
@@ -29,6 +49,14 @@ export class Unit extends Schema {
   @type('number') defense: number = 5;
   @type('number') movement: number = 3;
   @type('number') range: number = 1;
+  @type('number') minRange: number = 1;
+  @type('number') sight: number = 3;
+  @type([StatusEffect]) effects = new ArraySchema<StatusEffect>();
+  @type({ map: 'number' }) cooldowns = new MapSchema<number>(); // Ability id -> owner turns until ready
+  @type('number') experience: number = 0;
+  @type('number') rank: number = 0;
+  @type('number') pendingPerks: number = 0; // Promotions whose perk has not been picked yet
+  @type(['string']) perks = new ArraySchema<string>();
   @type('boolean') hasMoved: boolean = false;
   @type('boolean') hasAttacked: boolean = false;
   @type('boolean') isAlive: boolean = true;
@@ -40,18 +68,39 @@ export class Tile extends Schema {
   @type('boolean') isWalkable: boolean = true;
   @type('number') movementCost: number = 1;
   @type('number') defenseBonus: number = 0;
+  // Player holding a castle or village. Not synced: players learn owners through vision updates
+  ownerId: string = '';
 }
 
 export class GameState extends Schema {
   @type('string') gameId: string = '';
   @type('string') status: GameStatus = GameStatus.WAITING;
+  @filter(isPlayerClient)
   @type('string') phase: GamePhase = GamePhase.DEPLOYMENT;
+  @filter(isPlayerClient)
   @type('number') currentPlayerIndex: number = 0;
+  @filter(isPlayerClient)
+  @type('string') currentPlayerId: string = '';
+  @filter(isPlayerClient)
   @type('number') turnNumber: number = 1;
+  @type('number') deploymentRadius: number = 2;
+  // Gold, mana, action points and submitted orders would tell spectators what is happening live
+  @filter(isPlayerClient)
   @type({ map: Player }) players = new MapSchema<Player>();
+  // Clients only get their own units through the schema; enemies in sight arrive as vision updates
+  @filterChildren(function (this: GameState, client: { sessionId: string }, _key: string, unit: Unit, root: GameState) {
+    return root.players.get(client.sessionId)?.id === unit.playerId;
+  })
   @type({ map: Unit }) units = new MapSchema<Unit>();
   @type('number') mapWidth: number = 20;
   @type('number') mapHeight: number = 20;
+  @type([Tile]) tiles = new ArraySchema<Tile>(); // Row-major: index = y * mapWidth + x
   @type('string') winnerId: string = '';
-  @type('number') turnTimeRemaining: number = 0;
+  @filter(isPlayerClient)
+  @type('number') turnTimeRemaining: number = 0; // 0 while no turn timer is running
+  @type('string') turnMode: TurnMode = TurnMode.SEQUENTIAL;
+  // Combat settings, synced so client previews measure range and counters like the server
+  @type('string') rangeMetric: RangeMetric = 'manhattan';
+  @type('number') counterDamageMultiplier: number = DEFAULT_COUNTER_DAMAGE_MULTIPLIER;
+  @type('number') spectatorCount: number = 0;
 } 
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "game_actions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"game_id" uuid NOT NULL,
+	"sequence" integer NOT NULL,
+	"turn_number" integer NOT NULL,
+	"player_id" uuid,
+	"type" varchar(30) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "game_actions_game_id_sequence_unique" UNIQUE("game_id","sequence")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "game_actions" ADD CONSTRAINT "game_actions_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "games"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
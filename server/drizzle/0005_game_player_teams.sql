@@ -0,0 +1,3 @@
+ALTER TABLE "game_players" ADD COLUMN "team" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+-- Existing games are free-for-all: every player gets a team of their own
+UPDATE "game_players" SET "team" = "player_index";
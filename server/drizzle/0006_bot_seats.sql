@@ -0,0 +1,2 @@
+ALTER TABLE "game_players" ALTER COLUMN "user_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "game_players" ADD COLUMN "bot_difficulty" varchar(10);
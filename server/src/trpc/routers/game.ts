@@ -1,8 +1,26 @@
 import { z } from 'zod';
 import { router, protectedProcedure } from '../trpc';
-import { games, gamePlayers } from '../../db/schema';
-import { eq, desc } from 'drizzle-orm';
+import { games, gamePlayers, gameActions } from '../../db/schema';
+import { eq, desc, asc } from 'drizzle-orm';
 import { TRPCError } from '@trpc/server';
+import {
+  VictoryCondition,
+  TurnTimerMode,
+  TurnMode,
+  TeamFormat,
+  BotDifficulty,
+  DisconnectPolicy,
+  GameSettings,
+  GameStatus,
+  GameActionEntry,
+  assignTeam,
+  getTeamColor,
+  getTeamCount,
+  getTeamFormat,
+  getTeamGamePlayers,
+  isTeamGame,
+  TEAM_SIZES,
+} from '@tbs/shared';
 
 const createGameSchema = z.object({
   mapId: z.string().uuid(),
@@ -10,17 +28,56 @@ const createGameSchema = z.object({
     maxPlayers: z.number().min(2).max(8),
     turnTimeLimit: z.number().optional(),
     isPrivate: z.boolean(),
+    rangeMetric: z.enum(['manhattan', 'chebyshev']).optional(),
+    victoryConditions: z.array(z.nativeEnum(VictoryCondition)).min(1).optional(),
+    turnLimit: z.number().int().min(1).optional(),
+    counterDamageMultiplier: z.number().min(0).max(1).optional(),
+    turnTimerMode: z.nativeEnum(TurnTimerMode).optional(),
+    timeBankIncrement: z.number().int().min(0).optional(),
+    turnMode: z.nativeEnum(TurnMode).optional(),
+    teamFormat: z.nativeEnum(TeamFormat).optional(),
+    reconnectionWindow: z.number().int().min(0).max(300).optional(),
+    disconnectGracePeriod: z.number().int().min(0).max(600).optional(),
+    disconnectPolicy: z.nativeEnum(DisconnectPolicy).optional(),
+    spectatorDelay: z.number().int().min(0).max(600).optional(),
   }),
 });
 
+// All anyone else gets to know about a seated user
+const PUBLIC_USER = { columns: { id: true, username: true } } as const;
+
+// Spectators may watch running games that are not private
+function isWatchable(game: { status: string; settings: unknown }): boolean {
+  return game.status === GameStatus.IN_PROGRESS && !(game.settings as GameSettings).isPrivate;
+}
+
 const joinGameSchema = z.object({
   gameId: z.string().uuid(),
 });
 
+const addBotSchema = z.object({
+  gameId: z.string().uuid(),
+  difficulty: z.nativeEnum(BotDifficulty),
+});
+
+const setTeamSchema = z.object({
+  gameId: z.string().uuid(),
+  team: z.number().int().min(0),
+});
+
 export const gameRouter = router({
   create: protectedProcedure
     .input(createGameSchema)
     .mutation(async ({ ctx, input }) => {
+      // Team games seat exactly two full teams
+      const teamFormat = getTeamFormat(input.settings.teamFormat);
+      if (isTeamGame(teamFormat) && input.settings.maxPlayers !== getTeamGamePlayers(teamFormat)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `A ${teamFormat} game needs exactly ${getTeamGamePlayers(teamFormat)} players`,
+        });
+      }
+
       const [game] = await ctx.db
         .insert(games)
         .values({
@@ -34,7 +91,8 @@ export const gameRouter = router({
         gameId: game.id,
         userId: ctx.user.id,
         playerIndex: 0,
-        color: '#FF0000', // Red for first player
+        team: 0,
+        color: getTeamColor(teamFormat, 0),
       });
 
       return game;
@@ -58,15 +116,6 @@ export const gameRouter = router({
         });
       }
 
-      // Check if game is full
-      const settings = game.settings as any;
-      if (game.players.length >= settings.maxPlayers) {
-        throw new TRPCError({
-          code: 'BAD_REQUEST',
-          message: 'Game is full',
-        });
-      }
-
       // Check if player already in game
       const existingPlayer = game.players.find(p => p.userId === ctx.user.id);
       if (existingPlayer) {
@@ -76,27 +125,171 @@ export const gameRouter = router({
         });
       }
 
-      // Add player to game
-      const playerColors = ['#FF0000', '#0000FF', '#00FF00', '#FFFF00', '#FF00FF', '#00FFFF', '#FFA500', '#800080'];
-      const playerIndex = game.players.length;
+      // A full lobby still has room if a bot is keeping a seat warm; the human takes it over
+      const settings = game.settings as any;
+      if (game.players.length >= settings.maxPlayers) {
+        const botSeat = game.status === GameStatus.WAITING ? game.players.find(p => p.botDifficulty) : undefined;
+        if (!botSeat) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Game is full',
+          });
+        }
+
+        await ctx.db
+          .update(gamePlayers)
+          .set({ userId: ctx.user.id, botDifficulty: null })
+          .where(eq(gamePlayers.id, botSeat.id));
+
+        return { success: true };
+      }
+
+      // Add player to game, on whichever team has the fewest players
+      const teamFormat = getTeamFormat(settings.teamFormat);
+      const team = assignTeam(teamFormat, settings.maxPlayers, game.players.map(p => p.team));
+      const takenColors = game.players.filter(p => p.team === team).map(p => p.color);
 
       await ctx.db.insert(gamePlayers).values({
         gameId: game.id,
         userId: ctx.user.id,
-        playerIndex,
-        color: playerColors[playerIndex],
+        playerIndex: game.players.length,
+        team,
+        color: getTeamColor(teamFormat, team, takenColors),
       });
 
       return { success: true };
     }),
 
+  // Fills a free lobby seat with a server-side bot
+  addBot: protectedProcedure
+    .input(addBotSchema)
+    .mutation(async ({ ctx, input }) => {
+      const game = await ctx.db.query.games.findFirst({
+        where: eq(games.id, input.gameId),
+        with: {
+          players: true,
+        },
+      });
+
+      if (!game) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Game not found',
+        });
+      }
+
+      if (!game.players.some(p => p.userId === ctx.user.id)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You are not authorized to access this game',
+        });
+      }
+
+      if (game.status !== GameStatus.WAITING) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Bots can only be added before the game starts',
+        });
+      }
+
+      const settings = game.settings as any;
+      if (game.players.length >= settings.maxPlayers) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Game is full',
+        });
+      }
+
+      const teamFormat = getTeamFormat(settings.teamFormat);
+      const team = assignTeam(teamFormat, settings.maxPlayers, game.players.map(p => p.team));
+      const takenColors = game.players.filter(p => p.team === team).map(p => p.color);
+
+      const [seat] = await ctx.db
+        .insert(gamePlayers)
+        .values({
+          gameId: game.id,
+          userId: null,
+          botDifficulty: input.difficulty,
+          playerIndex: Math.max(-1, ...game.players.map(p => p.playerIndex)) + 1,
+          team,
+          color: getTeamColor(teamFormat, team, takenColors),
+          isReady: true,
+        })
+        .returning();
+
+      return { playerId: seat.id };
+    }),
+
+  // Moves the caller to another team while the game is still in the lobby
+  setTeam: protectedProcedure
+    .input(setTeamSchema)
+    .mutation(async ({ ctx, input }) => {
+      const game = await ctx.db.query.games.findFirst({
+        where: eq(games.id, input.gameId),
+        with: {
+          players: true,
+        },
+      });
+
+      if (!game) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Game not found',
+        });
+      }
+
+      const player = game.players.find(p => p.userId === ctx.user.id);
+      if (!player) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You are not authorized to access this game',
+        });
+      }
+
+      if (game.status !== GameStatus.WAITING) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Teams are locked once the game has started',
+        });
+      }
+
+      const settings = game.settings as any;
+      const teamFormat = getTeamFormat(settings.teamFormat);
+      if (!isTeamGame(teamFormat) || input.team >= getTeamCount(teamFormat, settings.maxPlayers)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'No such team in this game',
+        });
+      }
+
+      const teammates = game.players.filter(p => p.team === input.team && p.id !== player.id);
+      if (teammates.length >= TEAM_SIZES[teamFormat]) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'That team is full',
+        });
+      }
+
+      if (player.team !== input.team) {
+        await ctx.db
+          .update(gamePlayers)
+          .set({
+            team: input.team,
+            color: getTeamColor(teamFormat, input.team, teammates.map(p => p.color)),
+          })
+          .where(eq(gamePlayers.id, player.id));
+      }
+
+      return { success: true };
+    }),
+
   list: protectedProcedure.query(async ({ ctx }) => {
     const gamesList = await ctx.db.query.games.findMany({
       where: eq(games.status, 'waiting'),
       with: {
         players: {
           with: {
-            user: true,
+            user: PUBLIC_USER,
           },
         },
         map: true,
@@ -107,15 +300,47 @@ export const gameRouter = router({
     return gamesList;
   }),
 
+  // Running public games that can be watched, newest first
+  listLive: protectedProcedure.query(async ({ ctx }) => {
+    // The saved game state shows every unit, so it never leaves the server here
+    const gamesList = await ctx.db.query.games.findMany({
+      where: eq(games.status, GameStatus.IN_PROGRESS),
+      columns: {
+        id: true,
+        status: true,
+        mapId: true,
+        settings: true,
+        turnNumber: true,
+        createdAt: true,
+      },
+      with: {
+        players: {
+          with: {
+            user: PUBLIC_USER,
+          },
+        },
+        map: true,
+      },
+      orderBy: (games, { desc }) => [desc(games.createdAt)],
+    });
+
+    return gamesList.filter(isWatchable);
+  }),
+
   get: protectedProcedure
     .input(z.object({ gameId: z.string().uuid() }))
     .query(async ({ ctx, input }) => {
+      // The saved game state holds every unit on the map; players and spectators only get
+      // what their vision allows through the game room
       const game = await ctx.db.query.games.findFirst({
         where: eq(games.id, input.gameId),
+        columns: {
+          gameState: false,
+        },
         with: {
           players: {
             with: {
-              user: true,
+              user: PUBLIC_USER,
             },
           },
           map: true,
@@ -129,9 +354,9 @@ export const gameRouter = router({
         });
       }
 
-      // Check if user is a player in this game
+      // Check if user is a player in this game; anyone may look at a game they can watch
       const isPlayer = game.players.some(player => player.userId === ctx.user.id);
-      if (!isPlayer) {
+      if (!isPlayer && !isWatchable(game)) {
         throw new TRPCError({
           code: 'FORBIDDEN',
           message: 'You are not authorized to access this game',
@@ -140,4 +365,61 @@ export const gameRouter = router({
 
       return game;
     }),
-}); 
\ No newline at end of file
+
+  // The full action log of a finished game, in order
+  replay: protectedProcedure
+    .input(z.object({ gameId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const game = await ctx.db.query.games.findFirst({
+        where: eq(games.id, input.gameId),
+        with: {
+          players: {
+            with: {
+              user: PUBLIC_USER,
+            },
+          },
+          map: true,
+        },
+      });
+
+      if (!game) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Game not found',
+        });
+      }
+
+      const isPlayer = game.players.some(player => player.userId === ctx.user.id);
+      if (!isPlayer) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You are not authorized to access this game',
+        });
+      }
+
+      // The log reveals every move, so it stays hidden until fog of war no longer matters
+      if (game.status !== GameStatus.FINISHED) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Replays are available once the game has finished',
+        });
+      }
+
+      const actions = await ctx.db
+        .select()
+        .from(gameActions)
+        .where(eq(gameActions.gameId, input.gameId))
+        .orderBy(asc(gameActions.sequence));
+
+      return {
+        game,
+        actions: actions.map(action => ({
+          sequence: action.sequence,
+          turnNumber: action.turnNumber,
+          playerId: action.playerId,
+          type: action.type,
+          payload: action.payload,
+        })) as GameActionEntry[],
+      };
+    }),
+});
@@ -0,0 +1,135 @@
+import { describe, expect, test } from 'bun:test';
+import { TileType } from '../../types/map';
+import { UnitType } from '../../types/unit';
+import { ErrorCode } from '../../types/network';
+import { EngineState, getTile } from '../state';
+import { applyAction } from '../engine';
+import { getDistance, getLineTiles, hasLineOfSight } from '../combat';
+import { addUnit, createState, setTile } from './fixtures';
+
+function attack(state: EngineState, playerId: string, unitId: string, targetUnitId: string) {
+  return applyAction(state, { type: 'unit_action', playerId, action: { unitId, type: 'attack', targetUnitId } });
+}
+
+describe('distance', () => {
+  test('follow the configured range metric', () => {
+    expect(getDistance({ x: 0, y: 0 }, { x: 2, y: 2 }, 'manhattan')).toBe(4);
+    expect(getDistance({ x: 0, y: 0 }, { x: 2, y: 2 }, 'chebyshev')).toBe(2);
+  });
+});
+
+describe('line of sight', () => {
+  test('list the tiles between two points, endpoints excluded', () => {
+    expect(getLineTiles({ x: 0, y: 0 }, { x: 3, y: 0 })).toEqual([{ x: 1, y: 0 }, { x: 2, y: 0 }]);
+    expect(getLineTiles({ x: 0, y: 0 }, { x: 1, y: 0 })).toEqual([]);
+  });
+
+  test('is blocked by mountains and castles but not by forest', () => {
+    const state = createState(5, 1);
+    const tileAt = (x: number, y: number) => getTile(state, x, y);
+    const from = { x: 0, y: 0 };
+    const to = { x: 4, y: 0 };
+
+    setTile(state, 2, 0, TileType.FOREST);
+    expect(hasLineOfSight(from, to, tileAt)).toBe(true);
+    setTile(state, 2, 0, TileType.MOUNTAIN);
+    expect(hasLineOfSight(from, to, tileAt)).toBe(false);
+    setTile(state, 2, 0, TileType.CASTLE);
+    expect(hasLineOfSight(from, to, tileAt)).toBe(false);
+  });
+
+  test('stop ranged attacks but not melee ones', () => {
+    const state = createState(4, 2);
+    setTile(state, 1, 0, TileType.MOUNTAIN);
+    addUnit(state, 'a1', 'p1', UnitType.ARCHER, { x: 0, y: 0 });
+    addUnit(state, 'e1', 'p2', UnitType.WARRIOR, { x: 2, y: 0 });
+    addUnit(state, 'e2', 'p2', UnitType.WARRIOR, { x: 0, y: 1 });
+
+    const blocked = attack(state, 'p1', 'a1', 'e1');
+    expect(blocked.success ? null : blocked.error.code).toBe(ErrorCode.LINE_OF_SIGHT_BLOCKED);
+    expect(attack(state, 'p1', 'a1', 'e2').success).toBe(true);
+  });
+});
+
+describe('attacks', () => {
+  test('deal attack minus defence and take half of it back in melee', () => {
+    const state = createState();
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+    addUnit(state, 'e1', 'p2', UnitType.WARRIOR, { x: 1, y: 0 });
+
+    const result = attack(state, 'p1', 'w1', 'e1');
+    if (!result.success) throw new Error(result.error.message);
+
+    expect(result.state.units.e1.health).toBe(140);
+    expect(result.state.units.w1.health).toBe(145);
+    expect(result.state.units.w1.hasAttacked).toBe(true);
+  });
+
+  test('add the defender\'s terrain to its defence', () => {
+    const state = createState();
+    setTile(state, 1, 0, TileType.CASTLE);
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+    addUnit(state, 'e1', 'p2', UnitType.WARRIOR, { x: 1, y: 0 });
+
+    const result = attack(state, 'p1', 'w1', 'e1');
+    if (!result.success) throw new Error(result.error.message);
+    expect(result.state.units.e1.health).toBe(143);
+  });
+
+  test('scale counterattacks by the room setting', () => {
+    const state = createState();
+    state.settings.counterDamageMultiplier = 0;
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+    addUnit(state, 'e1', 'p2', UnitType.WARRIOR, { x: 1, y: 0 });
+
+    const result = attack(state, 'p1', 'w1', 'e1');
+    if (!result.success) throw new Error(result.error.message);
+    expect(result.state.units.w1.health).toBe(150);
+  });
+
+  test('get no counterattack from a defender that cannot reach back', () => {
+    const state = createState();
+    addUnit(state, 'a1', 'p1', UnitType.ARCHER, { x: 0, y: 0 });
+    addUnit(state, 'e1', 'p2', UnitType.WARRIOR, { x: 3, y: 0 });
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 5, y: 5 });
+    addUnit(state, 'e2', 'p2', UnitType.ARCHER, { x: 5, y: 6 });
+
+    const ranged = attack(state, 'p1', 'a1', 'e1');
+    if (!ranged.success) throw new Error(ranged.error.message);
+    expect(ranged.state.units.a1.health).toBe(80);
+
+    // Archers only shoot back at range
+    const melee = attack(ranged.state, 'p1', 'w1', 'e2');
+    if (!melee.success) throw new Error(melee.error.message);
+    expect(melee.state.units.w1.health).toBe(150);
+  });
+
+  test('remove killed units and never counter from the grave', () => {
+    const state = createState();
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+    addUnit(state, 'e1', 'p2', UnitType.WARRIOR, { x: 1, y: 0 }, { health: 5 });
+
+    const result = attack(state, 'p1', 'w1', 'e1');
+    if (!result.success) throw new Error(result.error.message);
+
+    expect(result.state.units.e1).toBeUndefined();
+    expect(result.state.units.w1.health).toBe(150);
+    expect(result.events).toContainEqual({ type: 'unit_killed', unitId: 'e1' });
+  });
+
+  test('reject friendly fire, out of range and second attacks', () => {
+    const state = createState();
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+    addUnit(state, 'w2', 'p1', UnitType.WARRIOR, { x: 1, y: 0 });
+    addUnit(state, 'e1', 'p2', UnitType.WARRIOR, { x: 0, y: 1 });
+    addUnit(state, 'e2', 'p2', UnitType.WARRIOR, { x: 5, y: 5 });
+
+    const codeOf = (result: ReturnType<typeof attack>) => result.success ? null : result.error.code;
+    expect(codeOf(attack(state, 'p1', 'w1', 'w2'))).toBe(ErrorCode.FRIENDLY_FIRE);
+    expect(codeOf(attack(state, 'p1', 'w1', 'e2'))).toBe(ErrorCode.TARGET_OUT_OF_RANGE);
+
+    const first = attack(state, 'p1', 'w1', 'e1');
+    if (!first.success) throw new Error(first.error.message);
+    expect(codeOf(attack(first.state, 'p1', 'w1', 'e1'))).toBe(ErrorCode.UNIT_ALREADY_ATTACKED);
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, expect, test } from 'bun:test';
+import { Position, UnitType } from '../../types/unit';
+import { ErrorCode } from '../../types/network';
+import { ACTION_POINTS_PER_TURN } from '../../rules/actionPoints';
+import { MANA_REGEN_PER_TURN } from '../../rules/abilities';
+import { EngineState } from '../state';
+import { EngineAction, EngineResult, EngineEvent, applyAction, applyStatusEffect, getEffectiveMovement } from '../engine';
+import { addUnit, createState } from './fixtures';
+
+function apply(state: EngineState, action: EngineAction): EngineState {
+  const result = applyAction(state, action);
+  if (!result.success) throw new Error(result.error.message);
+  return result.state;
+}
+
+function errorOf(result: EngineResult): ErrorCode | null {
+  return result.success ? null : result.error.code;
+}
+
+function move(playerId: string, unitId: string, x: number, y: number): EngineAction {
+  return { type: 'unit_action', playerId, action: { unitId, type: 'move', targetPosition: { x, y, z: 0 } } };
+}
+
+function useAbility(playerId: string, unitId: string, abilityId: string, target: Position | string): EngineAction {
+  const targeting = typeof target === 'string' ? { targetUnitId: target } : { targetPosition: target };
+  return { type: 'unit_action', playerId, action: { unitId, type: 'ability', abilityId, ...targeting } };
+}
+
+describe('action points', () => {
+  test('spend one point per action and refuse actions once they run out', () => {
+    let state = createState();
+    state.players.p1.actionPoints = 2;
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+    addUnit(state, 'w2', 'p1', UnitType.WARRIOR, { x: 0, y: 2 });
+    addUnit(state, 'w3', 'p1', UnitType.WARRIOR, { x: 0, y: 4 });
+
+    state = apply(state, move('p1', 'w1', 1, 0));
+    state = apply(state, move('p1', 'w2', 1, 2));
+    expect(state.players.p1.actionPoints).toBe(0);
+    expect(errorOf(applyAction(state, move('p1', 'w3', 1, 4)))).toBe(ErrorCode.INSUFFICIENT_ACTION_POINTS);
+  });
+
+  test('are not spent by rejected actions', () => {
+    const state = createState();
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+
+    const next = apply(state, move('p1', 'w1', 1, 0));
+    expect(errorOf(applyAction(next, move('p1', 'w1', 2, 0)))).toBe(ErrorCode.UNIT_ALREADY_MOVED);
+    expect(next.players.p1.actionPoints).toBe(ACTION_POINTS_PER_TURN - 1);
+  });
+
+  test('refill at the start of the player\'s turn', () => {
+    const state = createState();
+    state.players.p1.actionPoints = 0;
+    state.players.p1.mana = 0;
+
+    const next = apply(state, { type: 'begin_turn', playerId: 'p1' });
+    expect(next.players.p1.actionPoints).toBe(ACTION_POINTS_PER_TURN);
+    expect(next.players.p1.mana).toBe(MANA_REGEN_PER_TURN);
+  });
+
+  test('cannot be spent on another player\'s units', () => {
+    const state = createState();
+    addUnit(state, 'e1', 'p2', UnitType.WARRIOR, { x: 0, y: 0 });
+    expect(errorOf(applyAction(state, move('p1', 'e1', 1, 0)))).toBe(ErrorCode.INVALID_UNIT);
+  });
+});
+
+describe('abilities', () => {
+  test('heal an ally up to its maximum health and spend mana', () => {
+    const state = createState();
+    addUnit(state, 'm1', 'p1', UnitType.MAGE, { x: 0, y: 0 });
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 1, y: 0 }, { health: 140 });
+
+    const next = apply(state, useAbility('p1', 'm1', 'heal', 'w1'));
+    expect(next.units.w1.health).toBe(150);
+    expect(next.players.p1.mana).toBe(80);
+    expect(next.units.m1.hasAttacked).toBe(true);
+  });
+
+  test('go on cooldown and come back as the owner\'s turns pass', () => {
+    let state = createState();
+    addUnit(state, 'm1', 'p1', UnitType.MAGE, { x: 0, y: 0 });
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 1, y: 0 }, { health: 100 });
+
+    state = apply(state, useAbility('p1', 'm1', 'heal', 'w1'));
+    state = apply(state, { type: 'end_turn', playerId: 'p1' });
+    expect(state.units.m1.cooldowns.heal).toBe(1);
+    expect(errorOf(applyAction(state, useAbility('p1', 'm1', 'heal', 'w1')))).toBe(ErrorCode.ABILITY_ON_COOLDOWN);
+
+    state = apply(state, { type: 'begin_turn', playerId: 'p1' });
+    expect(state.units.m1.cooldowns.heal).toBeUndefined();
+    expect(applyAction(state, useAbility('p1', 'm1', 'heal', 'w1')).success).toBe(true);
+  });
+
+  test('refuse casts the player cannot pay for or the unit does not know', () => {
+    const state = createState();
+    state.players.p1.mana = 10;
+    addUnit(state, 'm1', 'p1', UnitType.MAGE, { x: 0, y: 0 });
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 1, y: 0 });
+
+    expect(errorOf(applyAction(state, useAbility('p1', 'm1', 'heal', 'w1')))).toBe(ErrorCode.INSUFFICIENT_MANA);
+    expect(errorOf(applyAction(state, useAbility('p1', 'w1', 'fireball', { x: 2, y: 0, z: 0 })))).toBe(ErrorCode.INVALID_ACTION);
+  });
+
+  test('burn friends and foes alike with a fireball', () => {
+    const state = createState();
+    addUnit(state, 'm1', 'p1', UnitType.MAGE, { x: 0, y: 0 });
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 2, y: 1 });
+    addUnit(state, 'e1', 'p2', UnitType.WARRIOR, { x: 3, y: 0 });
+
+    const next = apply(state, useAbility('p1', 'm1', 'fireball', { x: 2, y: 0, z: 0 }));
+    expect(next.units.e1.health).toBe(138);
+    expect(next.units.w1.health).toBe(138);
+    expect(next.units.m1.health).toBe(60);
+  });
+
+  test('slow the enemies a volley leaves standing', () => {
+    const state = createState();
+    addUnit(state, 'a1', 'p1', UnitType.ARCHER, { x: 0, y: 0 });
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 2, y: 1 });
+    addUnit(state, 'e1', 'p2', UnitType.WARRIOR, { x: 2, y: 0 });
+
+    const next = apply(state, useAbility('p1', 'a1', 'volley', { x: 2, y: 0, z: 0 }));
+    expect(next.units.e1.health).toBe(146);
+    expect(getEffectiveMovement(next.units.e1)).toBe(1);
+    expect(next.units.w1.effects).toEqual([]);
+  });
+
+  test('poison the target of a poison arrow', () => {
+    const state = createState();
+    addUnit(state, 'a1', 'p1', UnitType.ARCHER, { x: 0, y: 0 });
+    addUnit(state, 'e1', 'p2', UnitType.WARRIOR, { x: 2, y: 0 });
+
+    const next = apply(state, useAbility('p1', 'a1', 'poison_arrow', 'e1'));
+    expect(next.units.e1.health).toBe(148);
+    expect(next.units.e1.effects).toEqual([{ effectId: 'poisoned', turnsRemaining: 3, stacks: 1 }]);
+  });
+
+  test('stun the enemy a trample rides down for its next turn', () => {
+    let state = createState();
+    addUnit(state, 'c1', 'p1', UnitType.CAVALRY, { x: 0, y: 0 });
+    addUnit(state, 'e1', 'p2', UnitType.WARRIOR, { x: 1, y: 0 });
+
+    state = apply(state, useAbility('p1', 'c1', 'trample', 'e1'));
+    expect(state.units.e1.health).toBe(144);
+
+    state = apply(state, { type: 'begin_turn', playerId: 'p2' });
+    expect(errorOf(applyAction(state, move('p2', 'e1', 2, 0)))).toBe(ErrorCode.UNIT_ALREADY_MOVED);
+  });
+
+  test('fortify the caster and adjacent allies', () => {
+    const state = createState();
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 1, y: 1 });
+    addUnit(state, 'w2', 'p1', UnitType.WARRIOR, { x: 1, y: 2 });
+    addUnit(state, 'e1', 'p2', UnitType.WARRIOR, { x: 2, y: 1 });
+
+    const next = apply(state, useAbility('p1', 'w1', 'shield_wall', { x: 1, y: 1, z: 0 }));
+    expect(next.units.w1.effects.map(effect => effect.effectId)).toEqual(['fortified']);
+    expect(next.units.w2.effects.map(effect => effect.effectId)).toEqual(['fortified']);
+    expect(next.units.e1.effects).toEqual([]);
+  });
+});
+
+describe('status effects', () => {
+  test('stack poison, tick it each turn and never let it kill', () => {
+    let state = createState();
+    const unit = addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 }, { health: 20 });
+    const events: EngineEvent[] = [];
+    applyStatusEffect(unit, 'poisoned', events);
+    applyStatusEffect(unit, 'poisoned', events);
+    expect(unit.effects).toEqual([{ effectId: 'poisoned', turnsRemaining: 3, stacks: 2 }]);
+
+    state = apply(state, { type: 'begin_turn', playerId: 'p1' });
+    expect(state.units.w1.health).toBe(8);
+    state = apply(state, { type: 'begin_turn', playerId: 'p1' });
+    expect(state.units.w1.health).toBe(1);
+    state = apply(state, { type: 'begin_turn', playerId: 'p1' });
+    expect(state.units.w1.health).toBe(1);
+    expect(state.units.w1.effects).toEqual([]);
+  });
+
+  test('only tick on the owner\'s turn', () => {
+    let state = createState();
+    const unit = addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+    applyStatusEffect(unit, 'poisoned', []);
+
+    state = apply(state, { type: 'begin_turn', playerId: 'p2' });
+    expect(state.units.w1.health).toBe(150);
+    expect(state.units.w1.effects[0].turnsRemaining).toBe(3);
+  });
+
+  test('make a stunned unit skip its next turn', () => {
+    let state = createState();
+    const unit = addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+    applyStatusEffect(unit, 'stunned', []);
+
+    state = apply(state, { type: 'begin_turn', playerId: 'p1' });
+    expect(state.units.w1.effects).toEqual([]);
+    expect(errorOf(applyAction(state, move('p1', 'w1', 1, 0)))).toBe(ErrorCode.UNIT_ALREADY_MOVED);
+
+    state = apply(state, { type: 'end_turn', playerId: 'p1' });
+    state = apply(state, { type: 'begin_turn', playerId: 'p1' });
+    expect(applyAction(state, move('p1', 'w1', 1, 0)).success).toBe(true);
+  });
+
+  test('wear a buff off at the start of the owner\'s next turn', () => {
+    let state = createState();
+    const unit = addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+    applyStatusEffect(unit, 'fortified', []);
+    addUnit(state, 'e1', 'p2', UnitType.WARRIOR, { x: 1, y: 0 });
+
+    // +5 defence turns 20 - 10 into 20 - 15
+    const hit = applyAction(state, { type: 'unit_action', playerId: 'p2', action: { unitId: 'e1', type: 'attack', targetUnitId: 'w1' } });
+    if (!hit.success) throw new Error(hit.error.message);
+    expect(hit.state.units.w1.health).toBe(145);
+
+    state = apply(state, { type: 'begin_turn', playerId: 'p1' });
+    expect(state.units.w1.effects).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { TileType } from '../../types/map';
+import { UnitType } from '../../types/unit';
+import { getUnitDefinition } from '../../rules/units';
+import { DEFAULT_COUNTER_DAMAGE_MULTIPLIER } from '../combat';
+import { GridPoint } from '../pathfinding';
+import { EngineState, EngineTile, EngineUnit } from '../state';
+
+// Mirrors the game server's terrain table
+const TILE_PRESETS: Record<string, Omit<EngineTile, 'type' | 'ownerId'>> = {
+  [TileType.GRASS]: { isWalkable: true, movementCost: 1, defenseBonus: 0 },
+  [TileType.FOREST]: { isWalkable: true, movementCost: 2, defenseBonus: 1 },
+  [TileType.MOUNTAIN]: { isWalkable: false, movementCost: 3, defenseBonus: 2 },
+  [TileType.WATER]: { isWalkable: false, movementCost: 1, defenseBonus: 0 },
+  [TileType.CASTLE]: { isWalkable: true, movementCost: 1, defenseBonus: 3 },
+  [TileType.VILLAGE]: { isWalkable: true, movementCost: 1, defenseBonus: 1 },
+};
+
+// An open grass board with two players on opposing teams
+export function createState(width = 8, height = 8): EngineState {
+  return {
+    width,
+    height,
+    tiles: Array.from({ length: width * height }, () => ({ type: TileType.GRASS, ...TILE_PRESETS[TileType.GRASS], ownerId: '' })),
+    units: {},
+    players: {
+      p1: { id: 'p1', team: 0, gold: 0, mana: 100, actionPoints: 3 },
+      p2: { id: 'p2', team: 1, gold: 0, mana: 100, actionPoints: 3 },
+    },
+    settings: { rangeMetric: 'manhattan', counterDamageMultiplier: DEFAULT_COUNTER_DAMAGE_MULTIPLIER },
+    seed: 1,
+  };
+}
+
+export function setTile(state: EngineState, x: number, y: number, type: TileType) {
+  state.tiles[y * state.width + x] = { type, ...TILE_PRESETS[type], ownerId: '' };
+}
+
+// Adds a fresh unit with its catalogue stats
+export function addUnit(
+  state: EngineState,
+  id: string,
+  playerId: string,
+  type: UnitType,
+  position: GridPoint,
+  overrides: Partial<EngineUnit> = {}
+): EngineUnit {
+  const stats = getUnitDefinition(type)!.stats;
+  const unit: EngineUnit = {
+    id,
+    playerId,
+    type,
+    position: { ...position },
+    health: stats.maxHealth,
+    maxHealth: stats.maxHealth,
+    attack: stats.attack,
+    defense: stats.defense,
+    movement: stats.movement,
+    range: stats.range,
+    minRange: stats.minRange,
+    sight: stats.sight,
+    cooldowns: {},
+    effects: [],
+    experience: 0,
+    rank: 0,
+    pendingPerks: 0,
+    perks: [],
+    hasMoved: false,
+    hasAttacked: false,
+    isAlive: true,
+    ...overrides,
+  };
+  state.units[id] = unit;
+  return unit;
+}
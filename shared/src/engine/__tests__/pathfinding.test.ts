@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'bun:test';
+import { TileType } from '../../types/map';
+import { UnitType } from '../../types/unit';
+import { ErrorCode } from '../../types/network';
+import { applyAction, getReachableTiles } from '../engine';
+import { buildPath, positionKey } from '../pathfinding';
+import { addUnit, createState, setTile } from './fixtures';
+
+describe('reachable tiles', () => {
+  test('spend one movement point per grass tile', () => {
+    const state = createState();
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+
+    const reachable = getReachableTiles(state, 'w1');
+    expect(reachable.get(positionKey(3, 0))?.cost).toBe(3);
+    expect(reachable.has(positionKey(4, 0))).toBe(false);
+    expect(reachable.get(positionKey(0, 0))?.cost).toBe(0);
+  });
+
+  test('charge mounted units extra for forest', () => {
+    const state = createState();
+    setTile(state, 1, 0, TileType.FOREST);
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+    addUnit(state, 'c1', 'p1', UnitType.CAVALRY, { x: 0, y: 1 });
+
+    // The cavalry walks up from below, so its cost is one more step
+    expect(getReachableTiles(state, 'w1').get(positionKey(1, 0))?.cost).toBe(2);
+    expect(getReachableTiles(state, 'c1').get(positionKey(1, 0))?.cost).toBe(4);
+  });
+
+  test('never enter unwalkable terrain', () => {
+    const state = createState(4, 1);
+    setTile(state, 1, 0, TileType.WATER);
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+
+    expect([...getReachableTiles(state, 'w1').keys()]).toEqual([positionKey(0, 0)]);
+  });
+
+  test('pass through allies without stopping on them', () => {
+    const state = createState(4, 1);
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+    addUnit(state, 'w2', 'p1', UnitType.WARRIOR, { x: 1, y: 0 });
+
+    const reachable = getReachableTiles(state, 'w1');
+    expect(reachable.get(positionKey(1, 0))?.canStop).toBe(false);
+    expect(buildPath(reachable, { x: 1, y: 0 })).toBeNull();
+    expect(buildPath(reachable, { x: 2, y: 0 })).toEqual([{ x: 1, y: 0 }, { x: 2, y: 0 }]);
+  });
+
+  test('never pass through enemies', () => {
+    const state = createState(4, 1);
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+    addUnit(state, 'e1', 'p2', UnitType.WARRIOR, { x: 2, y: 0 });
+
+    const reachable = getReachableTiles(state, 'w1');
+    expect(reachable.has(positionKey(2, 0))).toBe(false);
+    expect(reachable.has(positionKey(3, 0))).toBe(false);
+  });
+
+  test('stop at the first tile inside an enemy zone of control', () => {
+    const state = createState(5, 3);
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 1 });
+    expect(getReachableTiles(state, 'w1').has(positionKey(3, 1))).toBe(true);
+
+    addUnit(state, 'e1', 'p2', UnitType.WARRIOR, { x: 2, y: 0 });
+    const reachable = getReachableTiles(state, 'w1');
+    expect(reachable.has(positionKey(2, 1))).toBe(true);
+    expect(reachable.has(positionKey(3, 1))).toBe(false);
+  });
+
+  test('leave a zone of control freely', () => {
+    const state = createState(5, 1);
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 1, y: 0 });
+    addUnit(state, 'e1', 'p2', UnitType.WARRIOR, { x: 0, y: 0 });
+
+    expect(getReachableTiles(state, 'w1').has(positionKey(4, 0))).toBe(true);
+  });
+});
+
+describe('move actions', () => {
+  test('move the unit along its path and leave the input state untouched', () => {
+    const state = createState();
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+
+    const result = applyAction(state, { type: 'unit_action', playerId: 'p1', action: { unitId: 'w1', type: 'move', targetPosition: { x: 2, y: 0, z: 0 } } });
+    if (!result.success) throw new Error(result.error.message);
+
+    expect(result.state.units.w1.position).toEqual({ x: 2, y: 0 });
+    expect(result.state.units.w1.hasMoved).toBe(true);
+    expect(result.events).toContainEqual({ type: 'unit_moved', unitId: 'w1', path: [{ x: 1, y: 0 }, { x: 2, y: 0 }] });
+    expect(state.units.w1.position).toEqual({ x: 0, y: 0 });
+  });
+
+  test('reject targets beyond the unit\'s movement', () => {
+    const state = createState();
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+
+    const result = applyAction(state, { type: 'unit_action', playerId: 'p1', action: { unitId: 'w1', type: 'move', targetPosition: { x: 4, y: 0, z: 0 } } });
+    expect(result.success ? null : result.error.code).toBe(ErrorCode.TARGET_UNREACHABLE);
+  });
+
+  test('capture income tiles on arrival', () => {
+    const state = createState();
+    setTile(state, 1, 0, TileType.VILLAGE);
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+
+    const result = applyAction(state, { type: 'unit_action', playerId: 'p1', action: { unitId: 'w1', type: 'move', targetPosition: { x: 1, y: 0, z: 0 } } });
+    if (!result.success) throw new Error(result.error.message);
+
+    expect(result.state.tiles[1].ownerId).toBe('p1');
+    expect(result.events.some(event => event.type === 'tile_captured')).toBe(true);
+  });
+});
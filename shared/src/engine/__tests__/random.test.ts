@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'bun:test';
+import { BotDifficulty } from '../../types/game';
+import { UnitType } from '../../types/unit';
+import { EngineAction, applyAction } from '../engine';
+import { chooseBotAction, getBotView } from '../ai';
+import { nextRandom, seedFromString } from '../random';
+import { GameActionType, buildReplayFrames } from '../replay';
+import { addUnit, createState } from './fixtures';
+
+const END_TURN: EngineAction = { type: 'end_turn', playerId: 'p1' };
+
+describe('seeded random numbers', () => {
+  test('repeat for the same seed and stay within [0, 1)', () => {
+    expect(nextRandom(42)).toEqual(nextRandom(42));
+
+    let seed = 42;
+    const values = Array.from({ length: 100 }, () => {
+      const draw = nextRandom(seed);
+      seed = draw.seed;
+      return draw.value;
+    });
+    expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+    expect(new Set(values).size).toBe(values.length);
+  });
+
+  test('derive stable seeds from strings', () => {
+    expect(seedFromString('game-1')).toBe(seedFromString('game-1'));
+    expect(seedFromString('game-1')).not.toBe(seedFromString('game-2'));
+  });
+});
+
+describe('engine seed', () => {
+  test('moves on with every accepted action and only then', () => {
+    const state = createState();
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+
+    const ended = applyAction(state, END_TURN);
+    if (!ended.success) throw new Error(ended.error.message);
+    expect(ended.state.seed).toBe(nextRandom(state.seed).seed);
+
+    const rejected = applyAction(state, { type: 'unit_action', playerId: 'p1', action: { unitId: 'w1', type: 'move', targetPosition: { x: 7, y: 7, z: 0 } } });
+    expect(rejected.success).toBe(false);
+    expect(state.seed).toBe(1);
+  });
+
+  test('is carried from the battle start snapshot into every replay frame', () => {
+    const state = createState();
+    state.seed = seedFromString('game-1');
+
+    const frames = buildReplayFrames([
+      { sequence: 0, turnNumber: 1, playerId: null, type: GameActionType.BATTLE_START, payload: { state, playerOrder: ['p1', 'p2'] } },
+      { sequence: 1, turnNumber: 1, playerId: 'p1', type: GameActionType.END_TURN, payload: {} },
+      { sequence: 2, turnNumber: 1, playerId: 'p2', type: GameActionType.TURN_STARTED, payload: {} },
+    ]);
+
+    expect(frames[0].state.seed).toBe(state.seed);
+    expect(frames[1].state.seed).toBe(nextRandom(nextRandom(state.seed).seed).seed);
+  });
+});
+
+describe('easy bots', () => {
+  function surroundedWarrior(seed: number) {
+    const state = createState();
+    state.seed = seed;
+    addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 2, y: 2 });
+    addUnit(state, 'e1', 'p2', UnitType.WARRIOR, { x: 1, y: 2 });
+    addUnit(state, 'e2', 'p2', UnitType.WARRIOR, { x: 3, y: 2 });
+    addUnit(state, 'e3', 'p2', UnitType.WARRIOR, { x: 2, y: 1 });
+    addUnit(state, 'e4', 'p2', UnitType.WARRIOR, { x: 2, y: 3 });
+    return state;
+  }
+
+  const pick = (seed: number) => chooseBotAction(getBotView(surroundedWarrior(seed), 'p1'), 'p1', BotDifficulty.EASY)?.targetUnitId ?? null;
+
+  test('pick the same action for the same seed', () => {
+    expect(pick(7)).toBe(pick(7));
+  });
+
+  test('pick differently across seeds', () => {
+    const targets = new Set(Array.from({ length: 20 }, (_, seed) => pick(seed)));
+    expect(targets.size).toBeGreaterThan(1);
+  });
+});
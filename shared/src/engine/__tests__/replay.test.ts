@@ -0,0 +1,46 @@
+import { describe, expect, test } from 'bun:test';
+import { UnitType } from '../../types/unit';
+import { GameActionEntry, GameActionType, buildReplayFrames } from '../replay';
+import { addUnit, createState } from './fixtures';
+
+function battleStart(): GameActionEntry {
+  const state = createState();
+  addUnit(state, 'w1', 'p1', UnitType.WARRIOR, { x: 0, y: 0 });
+  addUnit(state, 'w2', 'p2', UnitType.WARRIOR, { x: 7, y: 7 });
+  return { sequence: 0, turnNumber: 1, playerId: null, type: GameActionType.BATTLE_START, payload: { state, playerOrder: ['p1', 'p2'] } };
+}
+
+function entry(sequence: number, turnNumber: number, playerId: string, type: GameActionType.END_TURN | GameActionType.TURN_STARTED): GameActionEntry {
+  return { sequence, turnNumber, playerId, type, payload: {} };
+}
+
+describe('replay frames', () => {
+  test('follow each player turn in sequential games', () => {
+    const frames = buildReplayFrames([
+      battleStart(),
+      entry(1, 1, 'p1', GameActionType.END_TURN),
+      entry(2, 1, 'p2', GameActionType.TURN_STARTED),
+      entry(3, 1, 'p2', GameActionType.END_TURN),
+      entry(4, 2, 'p1', GameActionType.TURN_STARTED),
+    ]);
+
+    expect(frames.map(frame => [frame.turnNumber, frame.playerId])).toEqual([[1, 'p1'], [1, 'p2'], [2, 'p1']]);
+  });
+
+  test('hold one frame per resolved turn in simultaneous games', () => {
+    const frames = buildReplayFrames([
+      battleStart(),
+      entry(1, 1, 'p1', GameActionType.END_TURN),
+      entry(2, 1, 'p2', GameActionType.END_TURN),
+      entry(3, 2, 'p1', GameActionType.TURN_STARTED),
+      entry(4, 2, 'p2', GameActionType.TURN_STARTED),
+      entry(5, 2, 'p1', GameActionType.END_TURN),
+      entry(6, 2, 'p2', GameActionType.END_TURN),
+      entry(7, 3, 'p1', GameActionType.TURN_STARTED),
+      entry(8, 3, 'p2', GameActionType.TURN_STARTED),
+    ]);
+
+    expect(frames.map(frame => [frame.sequence, frame.turnNumber, frame.playerId])).toEqual([[0, 1, 'p1'], [4, 2, null], [8, 3, null]]);
+    expect(frames[1].state.players.p2.actionPoints).toBe(frames[1].state.players.p1.actionPoints);
+  });
+});
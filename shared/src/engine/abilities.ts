@@ -0,0 +1,80 @@
+import { AbilityDefinition, AbilityEffectType, AbilityHit, AbilityResult } from '../types/ability';
+import { RangeMetric } from '../types/combat';
+import { getStatusEffect } from '../rules/statusEffects';
+import { GridPoint } from './pathfinding';
+import { CombatTile, Combatant, calculateDamage, getDistance } from './combat';
+
+export interface AbilityUnit extends Combatant {
+  maxHealth: number;
+}
+
+export interface AbilityContext {
+  metric: RangeMetric;
+  units: AbilityUnit[];
+  getTile: (x: number, y: number) => CombatTile | undefined;
+  areAllies?: (playerA: string, playerB: string) => boolean; // Defaults to same owner only
+}
+
+// Units caught in the ability's area around the target point
+export function getAffectedUnits(
+  ability: AbilityDefinition,
+  caster: AbilityUnit,
+  target: GridPoint,
+  context: AbilityContext
+): AbilityUnit[] {
+  return context.units.filter(unit => {
+    if (getDistance(unit.position, target, context.metric) > ability.areaRadius) return false;
+
+    const isFriendly = context.areAllies
+      ? context.areAllies(unit.playerId, caster.playerId)
+      : unit.playerId === caster.playerId;
+    switch (ability.effect) {
+      case AbilityEffectType.DAMAGE:
+        return !isFriendly || ability.friendlyFire;
+      case AbilityEffectType.HEAL:
+        return isFriendly;
+      case AbilityEffectType.STATUS:
+        // Buffs land on allies, debuffs on enemies
+        return getStatusEffect(ability.status)?.isDebuff ? !isFriendly || ability.friendlyFire : isFriendly;
+    }
+  });
+}
+
+// Computes the outcome of an ability without mutating any unit
+export function resolveAbility(
+  ability: AbilityDefinition,
+  caster: AbilityUnit,
+  target: GridPoint,
+  context: AbilityContext
+): AbilityResult {
+  const hits: AbilityHit[] = getAffectedUnits(ability, caster, target, context).map(unit => {
+    const hit: AbilityHit = { unitId: unit.id, damage: 0, healed: 0, killed: false };
+
+    switch (ability.effect) {
+      case AbilityEffectType.DAMAGE: {
+        const terrainDefense = context.getTile(unit.position.x, unit.position.y)?.defenseBonus ?? 0;
+        const defense = unit.defense + (unit.bonusDefense ?? 0);
+        hit.damage = Math.min(unit.health, calculateDamage(ability.power, defense, terrainDefense));
+        hit.killed = unit.health - hit.damage <= 0;
+        break;
+      }
+      case AbilityEffectType.HEAL:
+        hit.healed = Math.max(0, Math.min(ability.power, unit.maxHealth - unit.health));
+        break;
+      case AbilityEffectType.STATUS:
+        break;
+    }
+
+    if (ability.status && !hit.killed) hit.status = ability.status;
+
+    return hit;
+  });
+
+  return {
+    abilityId: ability.id,
+    casterId: caster.id,
+    target: { x: target.x, y: target.y },
+    manaSpent: ability.manaCost,
+    hits,
+  };
+}
@@ -0,0 +1,238 @@
+import { UnitAction } from '../types/unit';
+import { BotDifficulty } from '../types/game';
+import { AbilityTargeting } from '../types/ability';
+import { getActionCost, canAffordAction } from '../rules/actionPoints';
+import { getAbility } from '../rules/abilities';
+import { getUnitDefinition } from '../rules/units';
+import { isIncomeTile } from '../rules/economy';
+import { EngineState, EngineUnit, areAllies, cloneState, getTile } from './state';
+import { EngineEvent, applyAction, getReachableTiles } from './engine';
+import { getDistance } from './combat';
+import { GridPoint } from './pathfinding';
+import { nextRandom, seedFromString } from './random';
+import { getVisibleUnitIds } from './simultaneous';
+
+interface BotProfile {
+  counterWeight: number; // How much damage taken back matters against damage dealt
+  useAbilities: boolean;
+  terrainWeight: number; // Value of a point of terrain defense where a unit ends its move
+  captureWeight: number; // Value of ending a move on an income tile someone else holds
+  pickBest: boolean; // Otherwise any worthwhile action will do
+}
+
+const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  [BotDifficulty.EASY]: { counterWeight: 0, useAbilities: false, terrainWeight: 0, captureWeight: 0, pickBest: false },
+  [BotDifficulty.NORMAL]: { counterWeight: 0.5, useAbilities: true, terrainWeight: 0, captureWeight: 15, pickBest: true },
+  [BotDifficulty.HARD]: { counterWeight: 1, useAbilities: true, terrainWeight: 3, captureWeight: 25, pickBest: true },
+};
+
+// Worth of a kill on top of the damage that caused it
+const KILL_VALUE = 40;
+
+// Fights come before manoeuvres, so a unit in range strikes before it walks off
+const STRIKE_PRIORITY = 1000;
+
+interface BotCandidate {
+  action: UnitAction;
+  value: number;
+}
+
+export function getBotName(difficulty: BotDifficulty, seat: number): string {
+  return `${difficulty.charAt(0).toUpperCase()}${difficulty.slice(1)} Bot ${seat + 1}`;
+}
+
+// What a bot may know: everything its team can see, with a random stream of its own derived
+// from the game's seed
+export function getBotView(state: EngineState, playerId: string): EngineState {
+  const view = cloneState(state);
+  const visible = getVisibleUnitIds(state, playerId);
+  Object.keys(view.units).forEach(unitId => {
+    if (!visible.has(unitId)) delete view.units[unitId];
+  });
+  view.seed = seedFromString(`${playerId}:${state.seed}`);
+  return view;
+}
+
+// The next action a bot takes on its view of the board, or null once it has nothing
+// worthwhile left to do. Units in `exhausted` are left alone, e.g. after the room refused them.
+export function chooseBotAction(
+  view: EngineState,
+  playerId: string,
+  difficulty: BotDifficulty,
+  exhausted: Set<string> = new Set()
+): UnitAction | null {
+  const player = view.players[playerId];
+  if (!player) return null;
+
+  const profile = BOT_PROFILES[difficulty];
+  const units = Object.values(view.units).filter(unit =>
+    unit.isAlive && unit.playerId === playerId && !exhausted.has(unit.id)
+  );
+  const enemies = Object.values(view.units).filter(unit =>
+    unit.isAlive && !areAllies(view, unit.playerId, playerId)
+  );
+
+  const candidates: BotCandidate[] = [];
+  units.forEach(unit => {
+    if (canAffordAction(player.actionPoints, getActionCost('attack'))) {
+      candidates.push(...getStrikeCandidates(view, unit, enemies, profile));
+    }
+    if (canAffordAction(player.actionPoints, getActionCost('move'))) {
+      const move = getMoveCandidate(view, unit, enemies, profile);
+      if (move) candidates.push(move);
+    }
+  });
+
+  const worthwhile = candidates.filter(candidate => candidate.value > 0);
+  if (worthwhile.length === 0) return null;
+
+  // Weaker bots settle for any worthwhile action, drawn from the view's seed so a game
+  // with the same seed plays out the same way
+  if (!profile.pickBest) {
+    return worthwhile[Math.floor(nextRandom(view.seed).value * worthwhile.length)].action;
+  }
+
+  worthwhile.sort((a, b) => b.value - a.value);
+  return worthwhile[0].action;
+}
+
+// A bot's whole turn of orders, planned against its own view; used for simultaneous turns
+export function planBotTurn(state: EngineState, playerId: string, difficulty: BotDifficulty): UnitAction[] {
+  let view = getBotView(state, playerId);
+  const orders: UnitAction[] = [];
+  const exhausted = new Set<string>();
+
+  let action = chooseBotAction(view, playerId, difficulty, exhausted);
+  while (action) {
+    const result = applyAction(view, { type: 'unit_action', playerId, action });
+    if (result.success) {
+      orders.push(action);
+      view = result.state;
+    } else {
+      exhausted.add(action.unitId);
+    }
+    action = chooseBotAction(view, playerId, difficulty, exhausted);
+  }
+
+  return orders;
+}
+
+// Attacks and, for stronger bots, abilities the unit can use right where it stands
+function getStrikeCandidates(view: EngineState, unit: EngineUnit, enemies: EngineUnit[], profile: BotProfile): BotCandidate[] {
+  if (unit.hasAttacked) return [];
+
+  const actions: UnitAction[] = enemies
+    .filter(enemy => getDistance(unit.position, enemy.position, view.settings.rangeMetric) <= unit.range)
+    .map(enemy => ({ unitId: unit.id, type: 'attack', targetUnitId: enemy.id }));
+
+  if (profile.useAbilities) {
+    getUnitDefinition(unit.type)?.abilities.forEach(abilityId => {
+      const ability = getAbility(abilityId);
+      if (!ability) return;
+
+      const targets = ability.targeting === AbilityTargeting.SELF
+        ? [unit]
+        : ability.targeting === AbilityTargeting.ALLY
+          ? Object.values(view.units).filter(other => other.isAlive && areAllies(view, other.playerId, unit.playerId))
+          : enemies;
+
+      targets
+        .filter(target => getDistance(unit.position, target.position, view.settings.rangeMetric) <= ability.range)
+        .forEach(target => actions.push({
+          unitId: unit.id,
+          type: 'ability',
+          abilityId,
+          targetUnitId: ability.targeting === AbilityTargeting.TILE || ability.targeting === AbilityTargeting.SELF ? undefined : target.id,
+          targetPosition: { x: target.position.x, y: target.position.y, z: 0 },
+        }));
+    });
+  }
+
+  const candidates: BotCandidate[] = [];
+  actions.forEach(action => {
+    const result = applyAction(view, { type: 'unit_action', playerId: unit.playerId, action });
+    if (!result.success) return;
+    candidates.push({ action, value: scoreEvents(view, unit.playerId, result.events, profile) + STRIKE_PRIORITY });
+  });
+  return candidates.filter(candidate => candidate.value > STRIKE_PRIORITY);
+}
+
+// What the outcome of a strike is worth to the striking side
+function scoreEvents(view: EngineState, playerId: string, events: EngineEvent[], profile: BotProfile): number {
+  let value = 0;
+
+  events.forEach(event => {
+    if (event.type === 'attack') {
+      const { combat } = event;
+      value += combat.damageDealt + (combat.defenderKilled ? KILL_VALUE : 0);
+      value -= (combat.counterDamage + (combat.attackerKilled ? KILL_VALUE : 0)) * profile.counterWeight;
+    } else if (event.type === 'ability_used') {
+      event.ability.hits.forEach(hit => {
+        const target = view.units[hit.unitId];
+        const friendly = !target || areAllies(view, target.playerId, playerId);
+        const harm = hit.damage + (hit.killed ? KILL_VALUE : 0);
+        // Status effects are worth something only where they were meant to land
+        value += friendly
+          ? hit.healed - harm + (hit.status ? 5 : 0)
+          : harm + (hit.status ? 5 : 0);
+      });
+    }
+  });
+
+  return value;
+}
+
+// The best place for the unit to walk to, if it beats staying put
+function getMoveCandidate(view: EngineState, unit: EngineUnit, enemies: EngineUnit[], profile: BotProfile): BotCandidate | null {
+  if (unit.hasMoved) return null;
+
+  const goals = enemies.length > 0 ? enemies.map(enemy => enemy.position) : getCapturableTiles(view, unit.playerId);
+  if (goals.length === 0) return null;
+
+  const current = scorePosition(view, unit, unit.position, enemies.length > 0, goals, profile);
+  const destinations = Array.from(getReachableTiles(view, unit.id).values())
+    .filter(node => node.canStop && node.cost > 0)
+    .map(node => ({ node, value: scorePosition(view, unit, node, enemies.length > 0, goals, profile) - current }))
+    .filter(destination => destination.value > 0)
+    .sort((a, b) => b.value - a.value);
+
+  // Pathfinding knows nothing of rules such as siege engines not moving after firing
+  for (const { node, value } of destinations) {
+    const action: UnitAction = { unitId: unit.id, type: 'move', targetPosition: { x: node.x, y: node.y, z: 0 } };
+    if (applyAction(view, { type: 'unit_action', playerId: unit.playerId, action }).success) {
+      return { action, value };
+    }
+  }
+  return null;
+}
+
+function scorePosition(
+  view: EngineState,
+  unit: EngineUnit,
+  position: GridPoint,
+  goalsAreEnemies: boolean,
+  goals: GridPoint[],
+  profile: BotProfile
+): number {
+  const distance = Math.min(...goals.map(goal => getDistance(position, goal, view.settings.rangeMetric)));
+  const inRange = goalsAreEnemies && distance >= unit.minRange && distance <= unit.range;
+  const tile = getTile(view, position.x, position.y);
+
+  let value = inRange ? 100 : -distance;
+  value += (tile?.defenseBonus ?? 0) * profile.terrainWeight;
+  if (tile && isIncomeTile(tile.type) && !areAllies(view, tile.ownerId, unit.playerId)) {
+    value += profile.captureWeight;
+  }
+  return value;
+}
+
+// With no enemy in sight, bots head for income tiles their side does not hold
+function getCapturableTiles(view: EngineState, playerId: string): GridPoint[] {
+  const goals: GridPoint[] = [];
+  view.tiles.forEach((tile, index) => {
+    if (isIncomeTile(tile.type) && !areAllies(view, tile.ownerId, playerId)) {
+      goals.push({ x: index % view.width, y: Math.floor(index / view.width) });
+    }
+  });
+  return goals;
+}
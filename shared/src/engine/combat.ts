@@ -0,0 +1,149 @@
+import { CombatResult, RangeMetric } from '../types/combat';
+import { TileType } from '../types/map';
+import { Retaliation } from '../types/unit';
+import { getUnitTraits } from '../rules/units';
+import { GridPoint } from './pathfinding';
+
+export interface CombatTile {
+  type: string;
+  defenseBonus: number;
+}
+
+export interface Combatant {
+  id: string;
+  playerId: string;
+  type: string;
+  position: GridPoint;
+  attack: number;
+  defense: number;
+  bonusAttack?: number; // Temporary modifiers from status effects
+  bonusDefense?: number;
+  health: number;
+  range: number;
+  minRange?: number;
+  hasMoved: boolean;
+}
+
+// How the defender could strike back; omit it to resolve a one-sided attack
+export interface CounterContext {
+  attackerTile: CombatTile | undefined;
+  distance: number;
+  hasLineOfSight: boolean;
+  damageMultiplier: number;
+}
+
+export const DEFAULT_COUNTER_DAMAGE_MULTIPLIER = 0.5;
+
+// Terrain that ranged attacks cannot pass over
+const LINE_OF_SIGHT_BLOCKERS = new Set<string>([TileType.MOUNTAIN, TileType.CASTLE]);
+
+export function getDistance(from: GridPoint, to: GridPoint, metric: RangeMetric): number {
+  const dx = Math.abs(from.x - to.x);
+  const dy = Math.abs(from.y - to.y);
+  return metric === 'chebyshev' ? Math.max(dx, dy) : dx + dy;
+}
+
+// Tiles crossed by a straight line between two points (Bresenham), endpoints excluded
+export function getLineTiles(from: GridPoint, to: GridPoint): GridPoint[] {
+  const tiles: GridPoint[] = [];
+  const dx = Math.abs(to.x - from.x);
+  const dy = -Math.abs(to.y - from.y);
+  const stepX = from.x < to.x ? 1 : -1;
+  const stepY = from.y < to.y ? 1 : -1;
+  let error = dx + dy;
+  let x = from.x;
+  let y = from.y;
+
+  while (x !== to.x || y !== to.y) {
+    const doubled = 2 * error;
+    if (doubled >= dy) {
+      error += dy;
+      x += stepX;
+    }
+    if (doubled <= dx) {
+      error += dx;
+      y += stepY;
+    }
+    if (x !== to.x || y !== to.y) {
+      tiles.push({ x, y });
+    }
+  }
+
+  return tiles;
+}
+
+export function hasLineOfSight(
+  from: GridPoint,
+  to: GridPoint,
+  getTile: (x: number, y: number) => CombatTile | undefined
+): boolean {
+  return getLineTiles(from, to).every(point => {
+    const tile = getTile(point.x, point.y);
+    return !tile || !LINE_OF_SIGHT_BLOCKERS.has(tile.type);
+  });
+}
+
+export function calculateDamage(attack: number, defense: number, terrainDefense: number): number {
+  return Math.max(1, attack - (defense + terrainDefense));
+}
+
+// Charge and siege bonuses the attacker gets against this target
+export function getAttackBonus(attacker: Combatant, defenderTile: CombatTile | undefined): number {
+  const traits = getUnitTraits(attacker.type);
+  let bonus = 0;
+  if (attacker.hasMoved) bonus += traits.chargeBonus;
+  if (defenderTile?.type === TileType.CASTLE) bonus += traits.castleBonus;
+  return bonus;
+}
+
+// Whether a surviving defender can reach its attacker at this distance
+export function canRetaliate(defender: Combatant, distance: number): boolean {
+  const rule = getUnitTraits(defender.type).retaliation;
+  if (rule === Retaliation.NONE) return false;
+  if (rule === Retaliation.MELEE_ONLY && distance > 1) return false;
+  if (rule === Retaliation.RANGED_ONLY && distance <= 1) return false;
+  return distance <= defender.range && distance >= (defender.minRange ?? 1);
+}
+
+// Retaliation uses the defender's bare attack: no charge or siege bonus
+function resolveCounterDamage(attacker: Combatant, defender: Combatant, counter: CounterContext): number {
+  if (counter.damageMultiplier <= 0 || !canRetaliate(defender, counter.distance)) return 0;
+  if (counter.distance > 1 && !counter.hasLineOfSight) return 0;
+
+  const terrainDefense = counter.attackerTile?.defenseBonus ?? 0;
+  const damage = calculateDamage(defender.attack + (defender.bonusAttack ?? 0), attacker.defense + (attacker.bonusDefense ?? 0), terrainDefense);
+  return Math.min(attacker.health, Math.max(1, Math.floor(damage * counter.damageMultiplier)));
+}
+
+// Computes the outcome of an attack without mutating either unit
+export function resolveAttack(
+  attacker: Combatant,
+  defender: Combatant,
+  defenderTile: CombatTile | undefined,
+  counter?: CounterContext
+): CombatResult {
+  const traits = getUnitTraits(attacker.type);
+  const ignoresTerrain = traits.ignoresCastleDefense && defenderTile?.type === TileType.CASTLE;
+  const terrainDefense = ignoresTerrain ? 0 : defenderTile?.defenseBonus ?? 0;
+  const attackBonus = getAttackBonus(attacker, defenderTile);
+  const damageDealt = Math.min(
+    defender.health,
+    calculateDamage(attacker.attack + (attacker.bonusAttack ?? 0) + attackBonus, defender.defense + (defender.bonusDefense ?? 0), terrainDefense)
+  );
+
+  const defenderKilled = defender.health - damageDealt <= 0;
+  const counterDamage = !defenderKilled && counter
+    ? resolveCounterDamage(attacker, { ...defender, health: defender.health - damageDealt }, counter)
+    : 0;
+
+  return {
+    attackerId: attacker.id,
+    defenderId: defender.id,
+    damageDealt,
+    attackBonus,
+    terrainDefense,
+    defenderKilled,
+    counterDamage,
+    attackerKilled: attacker.health - counterDamage <= 0,
+  };
+}
@@ -0,0 +1,522 @@
+import { UnitAction } from '../types/unit';
+import { CombatResult } from '../types/combat';
+import { AbilityResult, AbilityTargeting } from '../types/ability';
+import { ErrorCode, ErrorPayload, PromotionResult } from '../types/network';
+import { StatusTick } from '../types/status';
+import { ACTION_POINTS_PER_TURN, canAffordAction, getActionCost } from '../rules/actionPoints';
+import { getAbility, MAX_MANA, MANA_REGEN_PER_TURN } from '../rules/abilities';
+import { getTerrainMovementPenalty, getUnitDefinition, getUnitTraits } from '../rules/units';
+import { calculateIncome, isIncomeTile } from '../rules/economy';
+import {
+  PROMOTION_BONUS,
+  StatBonus,
+  calculateExperience,
+  getAvailablePerks,
+  getPerk,
+  getRankForExperience,
+} from '../rules/veterancy';
+import { getStatusEffect, getStatusModifiers, stackStatusEffect } from '../rules/statusEffects';
+import {
+  GridPoint,
+  MovementContext,
+  ReachableNode,
+  buildPath,
+  buildZoneOfControl,
+  computeReachableTiles,
+  isInBounds,
+  positionKey,
+} from './pathfinding';
+import { getDistance, hasLineOfSight, resolveAttack } from './combat';
+import { AbilityUnit, resolveAbility } from './abilities';
+import { nextRandom } from './random';
+import { EnginePlayer, EngineState, EngineUnit, areAllies, cloneState, getTile, getUnitAt } from './state';
+
+export type EngineAction =
+  | { type: 'unit_action'; playerId: string; action: UnitAction }
+  | { type: 'choose_perk'; playerId: string; unitId: string; perkId: string }
+  | { type: 'begin_turn'; playerId: string }
+  | { type: 'end_turn'; playerId: string };
+
+export type EngineEvent =
+  | { type: 'unit_moved'; unitId: string; path: GridPoint[] }
+  | { type: 'tile_captured'; unitId: string; position: GridPoint }
+  | { type: 'attack'; combat: CombatResult }
+  | { type: 'ability_used'; ability: AbilityResult }
+  | { type: 'unit_killed'; unitId: string }
+  | { type: 'promoted'; promotion: PromotionResult }
+  | { type: 'status_applied'; unitId: string; effectId: string; stacks: number }
+  | { type: 'status_tick'; tick: StatusTick }
+  | { type: 'perk_chosen'; unitId: string; perkId: string }
+  | { type: 'income'; playerId: string; gold: number };
+
+export type EngineResult =
+  | { success: true; state: EngineState; events: EngineEvent[] }
+  | { success: false; error: ErrorPayload };
+
+// Resolves one action against a copy of the state; the input state is never touched
+export function applyAction(state: EngineState, action: EngineAction): EngineResult {
+  const next = cloneState(state);
+  const events: EngineEvent[] = [];
+  let error: ErrorPayload | null;
+
+  switch (action.type) {
+    case 'unit_action':
+      error = applyUnitAction(next, action.playerId, action.action, events);
+      break;
+    case 'choose_perk':
+      error = choosePerk(next, action.playerId, action.unitId, action.perkId, events);
+      break;
+    case 'begin_turn':
+      error = beginTurn(next, action.playerId, events);
+      break;
+    case 'end_turn':
+      error = endTurn(next, action.playerId);
+      break;
+    default:
+      error = reject(ErrorCode.INVALID_ACTION, 'Unknown action type');
+  }
+
+  if (error) return { success: false, error };
+
+  // Anything decided from the new board, such as a bot's next pick, draws fresh numbers
+  next.seed = nextRandom(next.seed).seed;
+  return { success: true, state: next, events };
+}
+
+function reject(code: ErrorCode, message: string): ErrorPayload {
+  return { code, message };
+}
+
+function getOwnUnit(state: EngineState, playerId: string, unitId: string | undefined): EngineUnit | undefined {
+  const unit = unitId ? state.units[unitId] : undefined;
+  return unit && unit.isAlive && unit.playerId === playerId ? unit : undefined;
+}
+
+function applyUnitAction(state: EngineState, playerId: string, action: UnitAction, events: EngineEvent[]): ErrorPayload | null {
+  const player = state.players[playerId];
+  const unit = getOwnUnit(state, playerId, action?.unitId);
+  if (!player || !unit) {
+    return reject(ErrorCode.INVALID_UNIT, 'Invalid unit');
+  }
+
+  const cost = getActionCost(action.type);
+  if (!canAffordAction(player.actionPoints, cost)) {
+    return reject(ErrorCode.INSUFFICIENT_ACTION_POINTS, `Not enough action points (${cost} needed, ${player.actionPoints} left)`);
+  }
+
+  let error: ErrorPayload | null;
+  switch (action.type) {
+    case 'move':
+      error = moveUnit(state, unit, action.targetPosition, events);
+      break;
+    case 'attack':
+      error = attackUnit(state, unit, action.targetUnitId, events);
+      break;
+    case 'ability':
+      error = useAbility(state, unit, player, action, events);
+      break;
+    default:
+      error = reject(ErrorCode.INVALID_ACTION, 'Unknown action type');
+  }
+
+  if (!error) player.actionPoints -= cost;
+  return error;
+}
+
+// Terrain costs for the unit's movement class, with enemy blocking and zones of control
+export function getMovementContext(state: EngineState, movingUnit?: EngineUnit): MovementContext {
+  const movementClass = movingUnit ? getUnitDefinition(movingUnit.type)?.movementClass : undefined;
+  const enemies = movingUnit
+    ? Object.values(state.units).filter(other => other.isAlive && !areAllies(state, other.playerId, movingUnit.playerId))
+    : [];
+  const enemyKeys = new Set(enemies.map(enemy => positionKey(enemy.position.x, enemy.position.y)));
+
+  return {
+    width: state.width,
+    height: state.height,
+    getTile: (x, y) => {
+      const tile = getTile(state, x, y);
+      if (!tile || !movementClass) return tile;
+      return {
+        isWalkable: tile.isWalkable,
+        movementCost: tile.movementCost + getTerrainMovementPenalty(movementClass, tile.type),
+      };
+    },
+    isOccupied: (x, y) => {
+      const occupant = getUnitAt(state, x, y);
+      return !!occupant && occupant.id !== movingUnit?.id;
+    },
+    isHostile: (x, y) => enemyKeys.has(positionKey(x, y)),
+    zoneOfControl: buildZoneOfControl(enemies.map(enemy => enemy.position)),
+  };
+}
+
+// Movement points left after status effects such as Slowed
+export function getEffectiveMovement(unit: EngineUnit): number {
+  return Math.max(0, unit.movement + getStatusModifiers(unit.effects).movement);
+}
+
+// Every tile the unit could move to this turn; used for validation and client previews
+export function getReachableTiles(state: EngineState, unitId: string): Map<string, ReachableNode> {
+  const unit = state.units[unitId];
+  if (!unit || !unit.isAlive) return new Map();
+  return computeReachableTiles(getMovementContext(state, unit), unit.position, getEffectiveMovement(unit));
+}
+
+// Plain combat view of a unit with its status effect modifiers folded in
+export function toCombatant(unit: EngineUnit): AbilityUnit {
+  const modifiers = getStatusModifiers(unit.effects);
+  return {
+    id: unit.id,
+    playerId: unit.playerId,
+    type: unit.type,
+    position: { x: unit.position.x, y: unit.position.y },
+    attack: unit.attack,
+    defense: unit.defense,
+    bonusAttack: modifiers.attack,
+    bonusDefense: modifiers.defense,
+    health: unit.health,
+    maxHealth: unit.maxHealth,
+    range: unit.range,
+    minRange: unit.minRange,
+    hasMoved: unit.hasMoved,
+  };
+}
+
+function moveUnit(state: EngineState, unit: EngineUnit, targetPosition: GridPoint | undefined, events: EngineEvent[]): ErrorPayload | null {
+  if (unit.hasMoved) {
+    return reject(ErrorCode.UNIT_ALREADY_MOVED, 'Unit has already moved this turn');
+  }
+
+  if (unit.hasAttacked && getUnitTraits(unit.type).cannotMoveAndFire) {
+    return reject(ErrorCode.UNIT_ALREADY_ATTACKED, 'This unit cannot move after firing');
+  }
+
+  const context = getMovementContext(state, unit);
+  if (!targetPosition || !isInBounds(context, targetPosition.x, targetPosition.y)) {
+    return reject(ErrorCode.OUT_OF_BOUNDS, 'Target position is outside the map');
+  }
+
+  const tile = context.getTile(targetPosition.x, targetPosition.y);
+  if (!tile || !tile.isWalkable) {
+    return reject(ErrorCode.TILE_NOT_WALKABLE, 'Target tile is not walkable');
+  }
+
+  if (context.isOccupied(targetPosition.x, targetPosition.y)) {
+    return reject(ErrorCode.TILE_OCCUPIED, 'Target tile is occupied');
+  }
+
+  const reachable = computeReachableTiles(context, unit.position, getEffectiveMovement(unit));
+  const path = buildPath(reachable, targetPosition);
+  if (!path || path.length === 0) {
+    return reject(ErrorCode.TARGET_UNREACHABLE, 'Target is out of movement range');
+  }
+
+  unit.position = { x: targetPosition.x, y: targetPosition.y };
+  unit.hasMoved = true;
+  events.push({ type: 'unit_moved', unitId: unit.id, path });
+  captureTile(state, unit, events);
+  return null;
+}
+
+// Income tiles change hands as soon as a unit stands on them
+export function captureTile(state: EngineState, unit: EngineUnit, events: EngineEvent[]): boolean {
+  const tile = getTile(state, unit.position.x, unit.position.y);
+  if (!tile || !isIncomeTile(tile.type) || areAllies(state, tile.ownerId, unit.playerId)) return false;
+
+  tile.ownerId = unit.playerId;
+  events.push({ type: 'tile_captured', unitId: unit.id, position: { x: unit.position.x, y: unit.position.y } });
+  return true;
+}
+
+function killUnit(state: EngineState, unit: EngineUnit, events: EngineEvent[]) {
+  unit.isAlive = false;
+  delete state.units[unit.id];
+  events.push({ type: 'unit_killed', unitId: unit.id });
+}
+
+function attackUnit(state: EngineState, unit: EngineUnit, targetUnitId: string | undefined, events: EngineEvent[]): ErrorPayload | null {
+  if (unit.hasAttacked) {
+    return reject(ErrorCode.UNIT_ALREADY_ATTACKED, 'Unit has already attacked this turn');
+  }
+
+  const targetUnit = targetUnitId ? state.units[targetUnitId] : undefined;
+  if (!targetUnit || !targetUnit.isAlive) {
+    return reject(ErrorCode.INVALID_TARGET, 'Invalid attack target');
+  }
+
+  if (areAllies(state, targetUnit.playerId, unit.playerId)) {
+    return reject(ErrorCode.FRIENDLY_FIRE, 'Cannot attack your own or allied units');
+  }
+
+  if (unit.hasMoved && getUnitTraits(unit.type).cannotMoveAndFire) {
+    return reject(ErrorCode.UNIT_ALREADY_MOVED, 'This unit cannot fire after moving');
+  }
+
+  const distance = getDistance(unit.position, targetUnit.position, state.settings.rangeMetric);
+  if (distance > unit.range) {
+    return reject(ErrorCode.TARGET_OUT_OF_RANGE, 'Target is out of attack range');
+  }
+
+  if (distance < unit.minRange) {
+    return reject(ErrorCode.TARGET_TOO_CLOSE, 'Target is too close to attack');
+  }
+
+  // Melee attacks hit adjacent tiles, only ranged attacks need a clear line
+  const tileAt = (x: number, y: number) => getTile(state, x, y);
+  if (distance > 1 && !hasLineOfSight(unit.position, targetUnit.position, tileAt)) {
+    return reject(ErrorCode.LINE_OF_SIGHT_BLOCKED, 'Line of sight is blocked');
+  }
+
+  const combat = resolveAttack(toCombatant(unit), toCombatant(targetUnit), tileAt(targetUnit.position.x, targetUnit.position.y), {
+    attackerTile: tileAt(unit.position.x, unit.position.y),
+    distance,
+    hasLineOfSight: distance <= 1 || hasLineOfSight(targetUnit.position, unit.position, tileAt),
+    damageMultiplier: state.settings.counterDamageMultiplier,
+  });
+  targetUnit.health -= combat.damageDealt;
+  unit.health -= combat.counterDamage;
+  unit.hasAttacked = true;
+  events.push({ type: 'attack', combat });
+
+  [targetUnit, unit].forEach(combatant => {
+    if (combatant.health <= 0) killUnit(state, combatant, events);
+  });
+
+  // Both sides learn from the exchange; the fallen gain nothing
+  grantExperience(unit, calculateExperience(combat.damageDealt, 0, combat.defenderKilled ? 1 : 0), events);
+  grantExperience(targetUnit, calculateExperience(combat.counterDamage, 0, combat.attackerKilled ? 1 : 0), events);
+  return null;
+}
+
+// Using an ability takes the unit's attack for the turn
+function useAbility(
+  state: EngineState,
+  unit: EngineUnit,
+  player: EnginePlayer,
+  action: UnitAction,
+  events: EngineEvent[]
+): ErrorPayload | null {
+  const ability = getAbility(action.abilityId);
+  if (!ability || !getUnitDefinition(unit.type)?.abilities.includes(ability.id)) {
+    return reject(ErrorCode.INVALID_ACTION, 'This unit does not have that ability');
+  }
+
+  if (unit.hasAttacked) {
+    return reject(ErrorCode.UNIT_ALREADY_ATTACKED, 'Unit has already acted this turn');
+  }
+
+  const cooldown = unit.cooldowns[ability.id] ?? 0;
+  if (cooldown > 0) {
+    return reject(ErrorCode.ABILITY_ON_COOLDOWN, `${ability.name} is ready in ${cooldown} turn(s)`);
+  }
+
+  if (player.mana < ability.manaCost) {
+    return reject(ErrorCode.INSUFFICIENT_MANA, `${ability.name} needs ${ability.manaCost} mana`);
+  }
+
+  let target: GridPoint;
+  if (ability.targeting === AbilityTargeting.SELF) {
+    target = unit.position;
+  } else if (ability.targeting === AbilityTargeting.TILE) {
+    const position = action.targetPosition;
+    if (!position || !isInBounds(state, position.x, position.y)) {
+      return reject(ErrorCode.OUT_OF_BOUNDS, 'Target position is outside the map');
+    }
+    target = position;
+  } else {
+    const targetUnit = action.targetUnitId ? state.units[action.targetUnitId] : undefined;
+    if (!targetUnit || !targetUnit.isAlive) {
+      return reject(ErrorCode.INVALID_TARGET, 'Invalid ability target');
+    }
+    const isFriendly = areAllies(state, targetUnit.playerId, unit.playerId);
+    if (ability.targeting === AbilityTargeting.ENEMY && isFriendly) {
+      return reject(ErrorCode.FRIENDLY_FIRE, `${ability.name} must target an enemy`);
+    }
+    if (ability.targeting === AbilityTargeting.ALLY && !isFriendly) {
+      return reject(ErrorCode.INVALID_TARGET, `${ability.name} must target a friendly unit`);
+    }
+    target = targetUnit.position;
+  }
+
+  const distance = getDistance(unit.position, target, state.settings.rangeMetric);
+  if (distance > ability.range) {
+    return reject(ErrorCode.TARGET_OUT_OF_RANGE, 'Target is out of ability range');
+  }
+
+  const tileAt = (x: number, y: number) => getTile(state, x, y);
+  if (ability.requiresLineOfSight && distance > 1 && !hasLineOfSight(unit.position, target, tileAt)) {
+    return reject(ErrorCode.LINE_OF_SIGHT_BLOCKED, 'Line of sight is blocked');
+  }
+
+  const result = resolveAbility(ability, toCombatant(unit), target, {
+    metric: state.settings.rangeMetric,
+    units: Object.values(state.units).filter(other => other.isAlive).map(toCombatant),
+    getTile: tileAt,
+    areAllies: (playerA, playerB) => areAllies(state, playerA, playerB),
+  });
+  events.push({ type: 'ability_used', ability: result });
+
+  let enemyDamage = 0;
+  let enemyKills = 0;
+  let healed = 0;
+
+  result.hits.forEach(hit => {
+    const hitUnit = state.units[hit.unitId];
+    if (!hitUnit) return;
+
+    // Only harm done to the enemy counts towards experience
+    if (!areAllies(state, hitUnit.playerId, unit.playerId)) {
+      enemyDamage += hit.damage;
+      if (hit.killed) enemyKills++;
+    }
+    healed += hit.healed;
+
+    hitUnit.health = hitUnit.health - hit.damage + hit.healed;
+    if (hit.status) {
+      applyStatusEffect(hitUnit, hit.status, events);
+    }
+    if (hit.killed) {
+      killUnit(state, hitUnit, events);
+    }
+  });
+
+  player.mana -= ability.manaCost;
+  if (ability.cooldown > 0) {
+    unit.cooldowns[ability.id] = ability.cooldown;
+  }
+  unit.hasAttacked = true;
+
+  grantExperience(unit, calculateExperience(enemyDamage, healed, enemyKills), events);
+  return null;
+}
+
+export function applyStatusEffect(unit: EngineUnit, effectId: string, events: EngineEvent[]) {
+  const definition = getStatusEffect(effectId);
+  if (!definition) return;
+
+  const index = unit.effects.findIndex(effect => effect.effectId === effectId);
+  const next = stackStatusEffect(definition, unit.effects[index]);
+  if (!next) return;
+
+  if (index >= 0) {
+    unit.effects[index] = next;
+  } else {
+    unit.effects.push(next);
+  }
+  events.push({ type: 'status_applied', unitId: unit.id, effectId, stacks: next.stacks });
+}
+
+// Adds experience and promotes the unit through every rank it has reached
+function grantExperience(unit: EngineUnit, amount: number, events: EngineEvent[]) {
+  if (amount <= 0 || !unit.isAlive) return;
+
+  unit.experience += amount;
+  const targetRank = getRankForExperience(unit.experience).level;
+  if (targetRank <= unit.rank) return;
+
+  while (unit.rank < targetRank) {
+    unit.rank++;
+    unit.pendingPerks++;
+    applyStatBonus(unit, PROMOTION_BONUS);
+  }
+
+  events.push({ type: 'promoted', promotion: { unitId: unit.id, rank: unit.rank } });
+}
+
+function applyStatBonus(unit: EngineUnit, bonus: StatBonus) {
+  const healthBonus = bonus.maxHealth ?? 0;
+  unit.maxHealth += healthBonus;
+  unit.health += healthBonus;
+  unit.attack += bonus.attack ?? 0;
+  unit.defense += bonus.defense ?? 0;
+  unit.movement += bonus.movement ?? 0;
+  unit.range += bonus.range ?? 0;
+  unit.sight += bonus.sight ?? 0;
+}
+
+function choosePerk(state: EngineState, playerId: string, unitId: string, perkId: string, events: EngineEvent[]): ErrorPayload | null {
+  const unit = getOwnUnit(state, playerId, unitId);
+  if (!unit) {
+    return reject(ErrorCode.INVALID_UNIT, 'Invalid unit');
+  }
+
+  const perk = getPerk(perkId);
+  const available = getAvailablePerks(unit.range, unit.perks);
+  if (unit.pendingPerks <= 0 || !perk || !available.some(candidate => candidate.id === perk.id)) {
+    return reject(ErrorCode.INVALID_PERK, 'That perk cannot be chosen for this unit');
+  }
+
+  applyStatBonus(unit, perk.bonus);
+  unit.perks.push(perk.id);
+  unit.pendingPerks--;
+  events.push({ type: 'perk_chosen', unitId: unit.id, perkId: perk.id });
+  return null;
+}
+
+export function getPlayerIncome(state: EngineState, playerId: string): number {
+  return calculateIncome(state.tiles.filter(tile => tile.ownerId === playerId).map(tile => tile.type));
+}
+
+// Refills action points, pays income, regenerates mana, counts down cooldowns and ticks
+// status effects on the player's units
+function beginTurn(state: EngineState, playerId: string, events: EngineEvent[]): ErrorPayload | null {
+  const player = state.players[playerId];
+  if (!player) {
+    return reject(ErrorCode.INVALID_ACTION, 'Unknown player');
+  }
+
+  const income = getPlayerIncome(state, playerId);
+  player.actionPoints = ACTION_POINTS_PER_TURN;
+  player.gold += income;
+  player.mana = Math.min(MAX_MANA, player.mana + MANA_REGEN_PER_TURN);
+  events.push({ type: 'income', playerId, gold: income });
+
+  Object.values(state.units).forEach(unit => {
+    if (unit.playerId !== playerId) return;
+
+    Object.entries(unit.cooldowns).forEach(([abilityId, turns]) => {
+      if (turns <= 1) {
+        delete unit.cooldowns[abilityId];
+      } else {
+        unit.cooldowns[abilityId] = turns - 1;
+      }
+    });
+
+    tickStatusEffects(unit, events);
+  });
+
+  return null;
+}
+
+function tickStatusEffects(unit: EngineUnit, events: EngineEvent[]) {
+  unit.effects = unit.effects.filter(effect => {
+    const definition = getStatusEffect(effect.effectId);
+
+    // Lingering damage wears a unit down but never finishes it off
+    const damage = Math.min(Math.max(0, unit.health - 1), (definition?.damagePerTurn ?? 0) * effect.stacks);
+    unit.health -= damage;
+    if (definition?.skipsTurn) {
+      unit.hasMoved = true;
+      unit.hasAttacked = true;
+    }
+
+    effect.turnsRemaining--;
+    const expired = effect.turnsRemaining <= 0 || !definition;
+    if (damage > 0 || expired || definition?.skipsTurn) {
+      events.push({ type: 'status_tick', tick: { unitId: unit.id, effectId: effect.effectId, damage, expired } });
+    }
+    return !expired;
+  });
+}
+
+function endTurn(state: EngineState, playerId: string): ErrorPayload | null {
+  Object.values(state.units).forEach(unit => {
+    if (unit.playerId === playerId) {
+      unit.hasMoved = false;
+      unit.hasAttacked = false;
+    }
+  });
+  return null;
+}
+
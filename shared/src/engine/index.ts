@@ -0,0 +1,11 @@
+export * from './state';
+export * from './random';
+export * from './pathfinding';
+export * from './combat';
+export * from './abilities';
+export * from './vision';
+export * from './engine';
+export * from './replay';
+export * from './simultaneous';
+export * from './ai';
+export * from './spectator';
@@ -0,0 +1,119 @@
+export interface GridPoint {
+  x: number;
+  y: number;
+}
+
+export interface MovementTile {
+  isWalkable: boolean;
+  movementCost: number;
+}
+
+export interface MovementContext {
+  width: number;
+  height: number;
+  getTile: (x: number, y: number) => MovementTile | undefined;
+  // Returns true when a unit other than the moving one stands on the tile
+  isOccupied: (x: number, y: number) => boolean;
+  // Enemy units cannot be passed through; allies only cannot be stopped on
+  isHostile?: (x: number, y: number) => boolean;
+  // Entering one of these tiles ends the move
+  zoneOfControl?: Set<string>;
+}
+
+export interface ReachableNode {
+  x: number;
+  y: number;
+  cost: number;
+  previous: string | null;
+  canStop: boolean; // False for tiles an ally stands on
+}
+
+const NEIGHBOUR_OFFSETS: GridPoint[] = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 },
+];
+
+export function positionKey(x: number, y: number): string {
+  return `${x},${y}`;
+}
+
+// Tiles next to any of the given enemies
+export function buildZoneOfControl(enemies: GridPoint[]): Set<string> {
+  const zone = new Set<string>();
+  enemies.forEach(enemy => {
+    NEIGHBOUR_OFFSETS.forEach(offset => zone.add(positionKey(enemy.x + offset.x, enemy.y + offset.y)));
+  });
+  return zone;
+}
+
+export function isInBounds(context: Pick<MovementContext, 'width' | 'height'>, x: number, y: number): boolean {
+  return Number.isInteger(x) && Number.isInteger(y) &&
+    x >= 0 && y >= 0 && x < context.width && y < context.height;
+}
+
+// Dijkstra over the tile grid, bounded by the unit's movement points.
+// The start tile is always included with cost 0. A unit may leave an
+// enemy's zone of control but stops as soon as it enters one.
+export function computeReachableTiles(
+  context: MovementContext,
+  start: GridPoint,
+  movement: number
+): Map<string, ReachableNode> {
+  const reachable = new Map<string, ReachableNode>();
+  const startKey = positionKey(start.x, start.y);
+  reachable.set(startKey, { x: start.x, y: start.y, cost: 0, previous: null, canStop: true });
+
+  const open: ReachableNode[] = [reachable.get(startKey)!];
+  const settled = new Set<string>();
+
+  while (open.length > 0) {
+    // Maps are at most 50x50, a linear scan for the cheapest node is enough
+    let bestIndex = 0;
+    for (let i = 1; i < open.length; i++) {
+      if (open[i].cost < open[bestIndex].cost) bestIndex = i;
+    }
+    const current = open.splice(bestIndex, 1)[0];
+    const currentKey = positionKey(current.x, current.y);
+    if (settled.has(currentKey)) continue;
+    settled.add(currentKey);
+    if (currentKey !== startKey && context.zoneOfControl?.has(currentKey)) continue;
+
+    for (const offset of NEIGHBOUR_OFFSETS) {
+      const x = current.x + offset.x;
+      const y = current.y + offset.y;
+      if (!isInBounds(context, x, y)) continue;
+
+      const tile = context.getTile(x, y);
+      if (!tile || !tile.isWalkable) continue;
+      if (context.isHostile?.(x, y)) continue;
+
+      const cost = current.cost + Math.max(1, tile.movementCost);
+      if (cost > movement) continue;
+
+      const key = positionKey(x, y);
+      const known = reachable.get(key);
+      if (known && known.cost <= cost) continue;
+
+      const node: ReachableNode = { x, y, cost, previous: currentKey, canStop: !context.isOccupied(x, y) };
+      reachable.set(key, node);
+      open.push(node);
+    }
+  }
+
+  return reachable;
+}
+
+// Rebuilds the path (excluding the start tile) from a reachable set
+export function buildPath(reachable: Map<string, ReachableNode>, target: GridPoint): GridPoint[] | null {
+  let node = reachable.get(positionKey(target.x, target.y));
+  if (!node || !node.canStop) return null;
+
+  const path: GridPoint[] = [];
+  while (node && node.previous !== null) {
+    path.unshift({ x: node.x, y: node.y });
+    node = reachable.get(node.previous);
+  }
+  return path;
+}
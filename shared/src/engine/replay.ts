@@ -0,0 +1,161 @@
+import { UnitAction } from '../types/unit';
+import { EngineState, EngineUnit, cloneState } from './state';
+import { EngineResult, applyAction } from './engine';
+
+// Kinds of entries in a game's action log (the `game_actions` table)
+export enum GameActionType {
+  DEPLOY_UNIT = 'deploy_unit',
+  DEPLOYMENT_DONE = 'deployment_done',
+  BATTLE_START = 'battle_start',
+  UNIT_ACTION = 'unit_action',
+  UNDO_MOVE = 'undo_move',
+  CHOOSE_PERK = 'choose_perk',
+  RECRUIT_UNIT = 'recruit_unit',
+  END_TURN = 'end_turn',
+  TURN_STARTED = 'turn_started',
+  PLAYER_LEFT = 'player_left',
+  CHAT = 'chat',
+  GAME_ENDED = 'game_ended',
+}
+
+export interface GameActionPayloads {
+  [GameActionType.DEPLOY_UNIT]: { unit: EngineUnit; auto: boolean };
+  [GameActionType.DEPLOYMENT_DONE]: Record<string, never>;
+  [GameActionType.BATTLE_START]: { state: EngineState; playerOrder: string[] }; // Player ids in turn order
+  [GameActionType.UNIT_ACTION]: { action: UnitAction };
+  [GameActionType.UNDO_MOVE]: { unitId: string };
+  [GameActionType.CHOOSE_PERK]: { unitId: string; perkId: string };
+  [GameActionType.RECRUIT_UNIT]: { unit: EngineUnit; cost: number };
+  [GameActionType.END_TURN]: Record<string, never>;
+  [GameActionType.TURN_STARTED]: Record<string, never>;
+  [GameActionType.PLAYER_LEFT]: Record<string, never>;
+  [GameActionType.CHAT]: { username: string; message: string };
+  [GameActionType.GAME_ENDED]: { winnerId: string | null; reason: string };
+}
+
+export interface GameActionEntry<T extends GameActionType = GameActionType> {
+  sequence: number;
+  turnNumber: number;
+  playerId: string | null; // null for entries the room itself makes, like the battle start snapshot
+  type: T;
+  payload: GameActionPayloads[T];
+}
+
+// One step of a replay: the board at the start of a turn, or the final board
+export interface ReplayFrame {
+  sequence: number; // Last log entry folded into this frame
+  turnNumber: number;
+  playerId: string | null; // Whose turn it is; null while everyone plans at once
+  state: EngineState;
+}
+
+// Folds an action log into one frame per turn, starting from the battle start snapshot.
+// Deployment entries come before the snapshot and are already part of it.
+export function buildReplayFrames(entries: GameActionEntry[]): ReplayFrame[] {
+  const sorted = [...entries].sort((a, b) => a.sequence - b.sequence);
+  const frames: ReplayFrame[] = [];
+  let state: EngineState | null = null;
+  let playerId: string | null = null;
+  let last: GameActionEntry | null = null;
+  let undoStack: EngineState[] = []; // Boards from before each move that was still undoable
+
+  for (const entry of sorted) {
+    const previous = last;
+    if (entry.type === GameActionType.BATTLE_START) {
+      const payload = entry.payload as GameActionPayloads[GameActionType.BATTLE_START];
+      state = cloneState(payload.state);
+      playerId = payload.playerOrder[0] ?? null;
+      frames.push({ sequence: entry.sequence, turnNumber: entry.turnNumber, playerId, state });
+      last = entry;
+      continue;
+    }
+    if (!state) continue;
+
+    // The log only holds undos the room accepted, so the matching board is always on the stack
+    if (entry.type === GameActionType.UNDO_MOVE) {
+      state = undoStack.pop() ?? state;
+      last = entry;
+      continue;
+    }
+
+    const before = state;
+    state = applyEntry(state, entry);
+    last = entry;
+
+    if (isMove(entry)) {
+      undoStack.push(before);
+    } else if (entry.type !== GameActionType.CHAT) {
+      undoStack = [];
+    }
+
+    if (entry.type === GameActionType.TURN_STARTED) {
+      // Simultaneous turns start for every player at once and share one frame
+      const sameTurn = previous?.type === GameActionType.TURN_STARTED && previous.turnNumber === entry.turnNumber;
+      playerId = sameTurn ? null : entry.playerId;
+      const frame = { sequence: entry.sequence, turnNumber: entry.turnNumber, playerId, state };
+      if (sameTurn) {
+        frames[frames.length - 1] = frame;
+      } else {
+        frames.push(frame);
+      }
+    }
+  }
+
+  // Whatever happened after the last turn change ends the replay
+  if (state && last && frames[frames.length - 1]?.sequence !== last.sequence) {
+    frames.push({ sequence: last.sequence, turnNumber: last.turnNumber, playerId, state });
+  }
+
+  return frames;
+}
+
+function isMove(entry: GameActionEntry): boolean {
+  return entry.type === GameActionType.UNIT_ACTION &&
+    (entry.payload as GameActionPayloads[GameActionType.UNIT_ACTION]).action.type === 'move';
+}
+
+function applyEntry(state: EngineState, entry: GameActionEntry): EngineState {
+  const playerId = entry.playerId ?? '';
+
+  switch (entry.type) {
+    case GameActionType.UNIT_ACTION: {
+      const { action } = entry.payload as GameActionPayloads[GameActionType.UNIT_ACTION];
+      return resolve(state, applyAction(state, { type: 'unit_action', playerId, action }));
+    }
+    case GameActionType.CHOOSE_PERK: {
+      const { unitId, perkId } = entry.payload as GameActionPayloads[GameActionType.CHOOSE_PERK];
+      return resolve(state, applyAction(state, { type: 'choose_perk', playerId, unitId, perkId }));
+    }
+    case GameActionType.END_TURN:
+      return resolve(state, applyAction(state, { type: 'end_turn', playerId }));
+    case GameActionType.TURN_STARTED:
+      return resolve(state, applyAction(state, { type: 'begin_turn', playerId }));
+    case GameActionType.RECRUIT_UNIT: {
+      const { unit, cost } = entry.payload as GameActionPayloads[GameActionType.RECRUIT_UNIT];
+      const next = cloneState(state);
+      next.units[unit.id] = { ...unit };
+      const player = next.players[playerId];
+      if (player) player.gold -= cost;
+      return next;
+    }
+    case GameActionType.PLAYER_LEFT: {
+      const next = cloneState(state);
+      Object.values(next.units).forEach(unit => {
+        if (unit.playerId === playerId) delete next.units[unit.id];
+      });
+      next.tiles.forEach(tile => {
+        if (tile.ownerId === playerId) tile.ownerId = '';
+      });
+      delete next.players[playerId];
+      return next;
+    }
+    default:
+      return state;
+  }
+}
+
+// The log only holds accepted actions; should the rules have changed since, a rejected
+// entry leaves the board as it was instead of ending the replay
+function resolve(state: EngineState, result: EngineResult): EngineState {
+  return result.success ? result.state : state;
+}
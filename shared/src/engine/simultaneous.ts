@@ -0,0 +1,65 @@
+import { UnitAction } from '../types/unit';
+import { ErrorPayload } from '../types/network';
+import { EngineState } from './state';
+import { EngineEvent, applyAction } from './engine';
+import { getPlayerVision } from './vision';
+
+// Order types in the sequence they resolve: everyone moves, then everyone fights
+export const ORDER_PHASES: UnitAction['type'][][] = [['move'], ['attack', 'ability']];
+
+export interface ResolvedOrder {
+  playerId: string;
+  action: UnitAction;
+  success: boolean;
+  error?: ErrorPayload; // Why the order fizzled, e.g. its target already moved away
+  events: EngineEvent[];
+  state: EngineState; // Board right after this order
+}
+
+// Resolves every player's orders of a simultaneous turn against one board. Each phase takes
+// one order per player in turn, starting with `priority[0]`, until all orders are used up.
+// Orders that are no longer legal when their time comes are skipped, never reordered.
+export function resolveSimultaneousTurn(
+  state: EngineState,
+  orders: Record<string, UnitAction[]>,
+  priority: string[]
+): { state: EngineState; steps: ResolvedOrder[] } {
+  const steps: ResolvedOrder[] = [];
+  let current = state;
+
+  ORDER_PHASES.forEach(types => {
+    const queues = priority.map(playerId => ({
+      playerId,
+      actions: (orders[playerId] || []).filter(action => types.includes(action.type)),
+    }));
+
+    while (queues.some(queue => queue.actions.length > 0)) {
+      queues.forEach(queue => {
+        const action = queue.actions.shift();
+        if (!action) return;
+
+        const result = applyAction(current, { type: 'unit_action', playerId: queue.playerId, action });
+        if (result.success) {
+          current = result.state;
+          steps.push({ playerId: queue.playerId, action, success: true, events: result.events, state: current });
+        } else {
+          steps.push({ playerId: queue.playerId, action, success: false, error: result.error, events: [], state: current });
+        }
+      });
+    }
+  });
+
+  return { state: current, steps };
+}
+
+// Priority passes one seat along every turn so no player always acts first
+export function getTurnPriority(playerOrder: string[], turnNumber: number): string[] {
+  if (playerOrder.length === 0) return [];
+  const offset = (turnNumber - 1) % playerOrder.length;
+  return [...playerOrder.slice(offset), ...playerOrder.slice(0, offset)];
+}
+
+// Units a player can see on an engine board; their own and their allies' units always count
+export function getVisibleUnitIds(state: EngineState, playerId: string): Set<string> {
+  return getPlayerVision(state, playerId).unitIds;
+}
@@ -0,0 +1,23 @@
+import { EngineState, cloneState } from './state';
+import { getPlayerVision } from './vision';
+
+// What a spectator is shown of a board: all of it, or what one player and their team can see
+export interface SpectatorView {
+  state: EngineState;
+  visibleTiles: number[] | null; // null when the whole map is shown
+}
+
+// Unknown players fall back to the full map, e.g. after the followed player left the game
+export function getSpectatorView(state: EngineState, playerId: string | null): SpectatorView {
+  if (!playerId || !state.players[playerId]) {
+    return { state, visibleTiles: null };
+  }
+
+  const vision = getPlayerVision(state, playerId);
+  const view = cloneState(state);
+  Object.keys(view.units).forEach(unitId => {
+    if (!vision.unitIds.has(unitId)) delete view.units[unitId];
+  });
+
+  return { state: view, visibleTiles: Array.from(vision.tiles).sort((a, b) => a - b) };
+}
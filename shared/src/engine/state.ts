@@ -0,0 +1,83 @@
+import { RangeMetric } from '../types/combat';
+import { ActiveStatusEffect } from '../types/status';
+import { GridPoint } from './pathfinding';
+
+// Plain-data snapshot of everything the rules need; no schema classes, no timers, no sessions
+export interface EngineUnit {
+  id: string;
+  playerId: string;
+  type: string;
+  position: GridPoint;
+  health: number;
+  maxHealth: number;
+  attack: number;
+  defense: number;
+  movement: number;
+  range: number;
+  minRange: number;
+  sight: number;
+  cooldowns: Record<string, number>; // Ability id -> owner turns until ready
+  effects: ActiveStatusEffect[];
+  experience: number;
+  rank: number;
+  pendingPerks: number;
+  perks: string[];
+  hasMoved: boolean;
+  hasAttacked: boolean;
+  isAlive: boolean;
+}
+
+export interface EngineTile {
+  type: string;
+  isWalkable: boolean;
+  movementCost: number;
+  defenseBonus: number;
+  ownerId: string;
+}
+
+export interface EnginePlayer {
+  id: string;
+  team: number; // Players on the same team share vision and never fight each other
+  gold: number;
+  mana: number;
+  actionPoints: number;
+}
+
+export interface EngineSettings {
+  rangeMetric: RangeMetric;
+  counterDamageMultiplier: number;
+}
+
+export interface EngineState {
+  width: number;
+  height: number;
+  tiles: EngineTile[]; // Row-major: index = y * width + x
+  units: Record<string, EngineUnit>;
+  players: Record<string, EnginePlayer>; // Keyed by player id
+  settings: EngineSettings;
+  seed: number; // RNG state; every accepted action moves it on, so a replay draws the same numbers
+}
+
+export function cloneState(state: EngineState): EngineState {
+  return JSON.parse(JSON.stringify(state));
+}
+
+export function getTile(state: EngineState, x: number, y: number): EngineTile | undefined {
+  if (x < 0 || y < 0 || x >= state.width || y >= state.height) return undefined;
+  return state.tiles[y * state.width + x];
+}
+
+// A player is their own ally; players missing from the state, or from a log recorded before
+// teams existed, only ally with themselves
+export function areAllies(state: EngineState, playerA: string, playerB: string): boolean {
+  if (playerA === playerB) return true;
+  const a = state.players[playerA];
+  const b = state.players[playerB];
+  return a?.team !== undefined && a.team === b?.team;
+}
+
+export function getUnitAt(state: EngineState, x: number, y: number): EngineUnit | undefined {
+  return Object.values(state.units).find(unit =>
+    unit.isAlive && unit.position.x === x && unit.position.y === y
+  );
+}
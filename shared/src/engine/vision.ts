@@ -0,0 +1,90 @@
+import { RangeMetric } from '../types/combat';
+import { TileType } from '../types/map';
+import { GridPoint } from './pathfinding';
+import { CombatTile, getDistance, hasLineOfSight } from './combat';
+import { EngineState, areAllies, getTile } from './state';
+
+export interface VisionUnit {
+  id: string;
+  playerId: string;
+  position: GridPoint;
+  sight: number;
+}
+
+export interface VisionContext {
+  width: number;
+  height: number;
+  metric: RangeMetric;
+  getTile: (x: number, y: number) => CombatTile | undefined;
+}
+
+// Units hiding in a forest are only spotted from this close
+export const FOREST_SPOTTING_RANGE = 1;
+
+export function tileIndex(point: GridPoint, width: number): number {
+  return point.y * width + point.x;
+}
+
+// Tiles any of the observers can see; mountains and castles block sight lines
+export function computeVisibleTiles(observers: VisionUnit[], context: VisionContext): Set<number> {
+  const visible = new Set<number>();
+
+  observers.forEach(observer => {
+    const { x: ox, y: oy } = observer.position;
+    const radius = observer.sight;
+
+    for (let y = Math.max(0, oy - radius); y <= Math.min(context.height - 1, oy + radius); y++) {
+      for (let x = Math.max(0, ox - radius); x <= Math.min(context.width - 1, ox + radius); x++) {
+        const index = tileIndex({ x, y }, context.width);
+        if (visible.has(index)) continue;
+        if (getDistance(observer.position, { x, y }, context.metric) > radius) continue;
+        if (hasLineOfSight(observer.position, { x, y }, context.getTile)) {
+          visible.add(index);
+        }
+      }
+    }
+  });
+
+  return visible;
+}
+
+export function isUnitVisible(
+  target: VisionUnit,
+  observers: VisionUnit[],
+  visibleTiles: Set<number>,
+  context: VisionContext
+): boolean {
+  if (!visibleTiles.has(tileIndex(target.position, context.width))) return false;
+
+  const tile = context.getTile(target.position.x, target.position.y);
+  if (tile?.type !== TileType.FOREST) return true;
+
+  return observers.some(observer =>
+    getDistance(observer.position, target.position, context.metric) <= FOREST_SPOTTING_RANGE
+  );
+}
+
+export interface PlayerVision {
+  tiles: Set<number>;
+  unitIds: Set<string>;
+}
+
+// What a player sees on an engine board; teammates share sight, and a player's own and allied
+// units always count as seen
+export function getPlayerVision(state: EngineState, playerId: string): PlayerVision {
+  const units = Object.values(state.units).filter(unit => unit.isAlive);
+  const observers = units.filter(unit => areAllies(state, unit.playerId, playerId));
+  const context: VisionContext = {
+    width: state.width,
+    height: state.height,
+    metric: state.settings.rangeMetric,
+    getTile: (x: number, y: number) => getTile(state, x, y),
+  };
+  const tiles = computeVisibleTiles(observers, context);
+
+  const unitIds = new Set(units
+    .filter(unit => areAllies(state, unit.playerId, playerId) || isUnitVisible(unit, observers, tiles, context))
+    .map(unit => unit.id));
+
+  return { tiles, unitIds };
+}
@@ -1,5 +1,16 @@
 export * from './types/game';
 export * from './types/player';
 export * from './types/unit';
+export * from './types/combat';
+export * from './types/ability';
+export * from './types/status';
 export * from './types/map';
-export * from './types/network'; 
\ No newline at end of file
+export * from './types/network';
+export * from './rules/actionPoints';
+export * from './rules/abilities';
+export * from './rules/units';
+export * from './rules/economy';
+export * from './rules/veterancy';
+export * from './rules/statusEffects';
+export * from './rules/teams';
+export * from './engine';
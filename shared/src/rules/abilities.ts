@@ -0,0 +1,99 @@
+import { AbilityDefinition, AbilityEffectType, AbilityTargeting } from '../types/ability';
+
+export const MAX_MANA = 100;
+export const MANA_REGEN_PER_TURN = 10;
+
+export const ABILITIES: Record<string, AbilityDefinition> = {
+  fireball: {
+    id: 'fireball',
+    name: 'Fireball',
+    description: 'Hurls a fireball that burns every unit around the target tile',
+    manaCost: 30,
+    cooldown: 2,
+    targeting: AbilityTargeting.TILE,
+    range: 3,
+    areaRadius: 1,
+    effect: AbilityEffectType.DAMAGE,
+    power: 22,
+    requiresLineOfSight: true,
+    friendlyFire: true,
+  },
+  heal: {
+    id: 'heal',
+    name: 'Heal',
+    description: 'Restores health to a friendly unit',
+    manaCost: 20,
+    cooldown: 1,
+    targeting: AbilityTargeting.ALLY,
+    range: 2,
+    areaRadius: 0,
+    effect: AbilityEffectType.HEAL,
+    power: 30,
+    requiresLineOfSight: false,
+    friendlyFire: false,
+  },
+  shield_wall: {
+    id: 'shield_wall',
+    name: 'Shield Wall',
+    description: 'Raises the defence of the warrior and adjacent allies until its next turn',
+    manaCost: 15,
+    cooldown: 3,
+    targeting: AbilityTargeting.SELF,
+    range: 0,
+    areaRadius: 1,
+    effect: AbilityEffectType.STATUS,
+    power: 0,
+    status: 'fortified',
+    requiresLineOfSight: false,
+    friendlyFire: false,
+  },
+  volley: {
+    id: 'volley',
+    name: 'Volley',
+    description: 'Rains arrows on enemies around the target tile, slowing the survivors',
+    manaCost: 20,
+    cooldown: 2,
+    targeting: AbilityTargeting.TILE,
+    range: 4,
+    areaRadius: 1,
+    effect: AbilityEffectType.DAMAGE,
+    power: 14,
+    status: 'slowed',
+    requiresLineOfSight: true,
+    friendlyFire: false,
+  },
+  poison_arrow: {
+    id: 'poison_arrow',
+    name: 'Poison Arrow',
+    description: 'Shoots a poisoned arrow that keeps hurting the target for a few turns',
+    manaCost: 15,
+    cooldown: 2,
+    targeting: AbilityTargeting.ENEMY,
+    range: 3,
+    areaRadius: 0,
+    effect: AbilityEffectType.DAMAGE,
+    power: 12,
+    status: 'poisoned',
+    requiresLineOfSight: true,
+    friendlyFire: false,
+  },
+  trample: {
+    id: 'trample',
+    name: 'Trample',
+    description: 'Rides down an adjacent enemy, leaving it stunned for its next turn',
+    manaCost: 25,
+    cooldown: 3,
+    targeting: AbilityTargeting.ENEMY,
+    range: 1,
+    areaRadius: 0,
+    effect: AbilityEffectType.DAMAGE,
+    power: 16,
+    status: 'stunned',
+    requiresLineOfSight: false,
+    friendlyFire: false,
+  },
+};
+
+export function getAbility(abilityId: string | undefined): AbilityDefinition | undefined {
+  return abilityId ? ABILITIES[abilityId] : undefined;
+}
@@ -0,0 +1,18 @@
+import { UnitAction } from '../types/unit';
+
+export const ACTION_POINTS_PER_TURN = 3;
+
+// Base action point cost of each unit action type
+export const ACTION_COSTS: Record<UnitAction['type'], number> = {
+  move: 1,
+  attack: 1,
+  ability: 1,
+};
+
+export function getActionCost(type: UnitAction['type']): number {
+  return ACTION_COSTS[type] ?? 0;
+}
+
+export function canAffordAction(actionPoints: number, cost: number): boolean {
+  return actionPoints >= cost;
+}
@@ -0,0 +1,25 @@
+import { TileType } from '../types/map';
+import { getUnitDefinition } from './units';
+
+// Gold a tile pays its owner at the start of each of their turns
+export const TILE_INCOME: Partial<Record<TileType, number>> = {
+  [TileType.CASTLE]: 50,
+  [TileType.VILLAGE]: 20,
+};
+
+export function getTileIncome(tileType: string): number {
+  return TILE_INCOME[tileType as TileType] ?? 0;
+}
+
+// Income tiles change hands when a unit stands on them
+export function isIncomeTile(tileType: string): boolean {
+  return getTileIncome(tileType) > 0;
+}
+
+export function calculateIncome(ownedTileTypes: string[]): number {
+  return ownedTileTypes.reduce((total, tileType) => total + getTileIncome(tileType), 0);
+}
+
+export function getRecruitCost(unitType: string): number | undefined {
+  return getUnitDefinition(unitType)?.cost.gold;
+}
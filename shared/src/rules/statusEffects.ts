@@ -0,0 +1,95 @@
+import {
+  ActiveStatusEffect,
+  StackingRule,
+  StatusEffectDefinition,
+  StatusModifiers,
+} from '../types/status';
+
+export const STATUS_EFFECTS: Record<string, StatusEffectDefinition> = {
+  poisoned: {
+    id: 'poisoned',
+    name: 'Poisoned',
+    description: 'Loses health at the start of each turn; poison alone never kills',
+    icon: '☠️',
+    isDebuff: true,
+    duration: 3,
+    stacking: StackingRule.STACK,
+    maxStacks: 3,
+    modifiers: {},
+    damagePerTurn: 6,
+  },
+  stunned: {
+    id: 'stunned',
+    name: 'Stunned',
+    description: 'Cannot move or attack on its next turn',
+    icon: '💫',
+    isDebuff: true,
+    duration: 1,
+    stacking: StackingRule.IGNORE,
+    maxStacks: 1,
+    modifiers: {},
+    skipsTurn: true,
+  },
+  fortified: {
+    id: 'fortified',
+    name: 'Fortified',
+    description: '+5 defence until the unit\'s next turn',
+    icon: '🛡️',
+    isDebuff: false,
+    duration: 1,
+    stacking: StackingRule.REFRESH,
+    maxStacks: 1,
+    modifiers: { defense: 5 },
+  },
+  slowed: {
+    id: 'slowed',
+    name: 'Slowed',
+    description: '-2 movement',
+    icon: '🐌',
+    isDebuff: true,
+    duration: 2,
+    stacking: StackingRule.REFRESH,
+    maxStacks: 1,
+    modifiers: { movement: -2 },
+  },
+};
+
+export function getStatusEffect(effectId: string | undefined): StatusEffectDefinition | undefined {
+  return effectId ? STATUS_EFFECTS[effectId] : undefined;
+}
+
+// Sums the modifiers of every running effect, scaled by their stacks
+export function getStatusModifiers(effects: Iterable<ActiveStatusEffect>): StatusModifiers {
+  const total: StatusModifiers = { attack: 0, defense: 0, movement: 0 };
+  for (const effect of effects) {
+    const definition = getStatusEffect(effect.effectId);
+    if (!definition) continue;
+    total.attack += (definition.modifiers.attack ?? 0) * effect.stacks;
+    total.defense += (definition.modifiers.defense ?? 0) * effect.stacks;
+    total.movement += (definition.modifiers.movement ?? 0) * effect.stacks;
+  }
+  return total;
+}
+
+// The state an effect should have after being applied again, or null when nothing changes
+export function stackStatusEffect(
+  definition: StatusEffectDefinition,
+  existing: ActiveStatusEffect | undefined
+): ActiveStatusEffect | null {
+  if (!existing) {
+    return { effectId: definition.id, turnsRemaining: definition.duration, stacks: 1 };
+  }
+
+  switch (definition.stacking) {
+    case StackingRule.IGNORE:
+      return null;
+    case StackingRule.REFRESH:
+      return { effectId: definition.id, turnsRemaining: definition.duration, stacks: existing.stacks };
+    case StackingRule.STACK:
+      return {
+        effectId: definition.id,
+        turnsRemaining: definition.duration,
+        stacks: Math.min(definition.maxStacks, existing.stacks + 1),
+      };
+  }
+}
@@ -0,0 +1,59 @@
+import { TeamFormat } from '../types/game';
+
+// Players per team; in free-for-all everyone stands alone
+export const TEAM_SIZES: Record<TeamFormat, number> = {
+  [TeamFormat.FREE_FOR_ALL]: 1,
+  [TeamFormat.TWO_VS_TWO]: 2,
+  [TeamFormat.THREE_VS_THREE]: 3,
+  [TeamFormat.FOUR_VS_FOUR]: 4,
+};
+
+// One colour per seat in free-for-all games
+export const FREE_FOR_ALL_COLORS = ['#FF0000', '#0000FF', '#00FF00', '#FFFF00', '#FF00FF', '#00FFFF', '#FFA500', '#800080'];
+
+// Shades of one colour per team, so allies are told apart from each other but read as one side
+export const TEAM_PALETTES: string[][] = [
+  ['#FF0000', '#FF6B6B', '#B22222', '#FF8C00'],
+  ['#0000FF', '#4DA6FF', '#000080', '#00CED1'],
+];
+
+export function getTeamFormat(format: string | undefined): TeamFormat {
+  return (Object.values(TeamFormat) as string[]).includes(format ?? '')
+    ? format as TeamFormat
+    : TeamFormat.FREE_FOR_ALL;
+}
+
+export function isTeamGame(format: TeamFormat): boolean {
+  return format !== TeamFormat.FREE_FOR_ALL;
+}
+
+export function getTeamCount(format: TeamFormat, maxPlayers: number): number {
+  return isTeamGame(format) ? TEAM_PALETTES.length : maxPlayers;
+}
+
+// Team games always seat two full teams
+export function getTeamGamePlayers(format: TeamFormat): number {
+  return TEAM_SIZES[format] * TEAM_PALETTES.length;
+}
+
+// New players go to the emptiest team, lowest number first
+export function assignTeam(format: TeamFormat, maxPlayers: number, takenTeams: number[]): number {
+  let best = 0;
+  let bestCount = Infinity;
+  for (let team = 0; team < getTeamCount(format, maxPlayers); team++) {
+    const count = takenTeams.filter(taken => taken === team).length;
+    if (count < bestCount) {
+      best = team;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// First colour of the team's palette no teammate is wearing yet
+export function getTeamColor(format: TeamFormat, team: number, takenColors: string[] = []): string {
+  const palette = isTeamGame(format)
+    ? TEAM_PALETTES[team % TEAM_PALETTES.length]
+    : [FREE_FOR_ALL_COLORS[team % FREE_FOR_ALL_COLORS.length]];
+  return palette.find(color => !takenColors.includes(color)) ?? palette[0];
+}
@@ -0,0 +1,137 @@
+import { MovementClass, Retaliation, UnitDefinition, UnitTraits, UnitType } from '../types/unit';
+import { TileType } from '../types/map';
+import { AbilityDefinition } from '../types/ability';
+import { ABILITIES } from './abilities';
+
+const NO_TRAITS: UnitTraits = {
+  chargeBonus: 0,
+  castleBonus: 0,
+  ignoresCastleDefense: false,
+  cannotMoveAndFire: false,
+  retaliation: Retaliation.ANY,
+};
+
+// Single source of truth for unit balance, read by both the game server and the client
+export const UNIT_CATALOGUE: Record<UnitType, UnitDefinition> = {
+  [UnitType.WARRIOR]: {
+    type: UnitType.WARRIOR,
+    name: 'Warrior',
+    stats: { maxHealth: 150, attack: 20, defense: 10, movement: 3, range: 1, minRange: 1, sight: 3 },
+    cost: { gold: 100 },
+    abilities: ['shield_wall'],
+    movementClass: MovementClass.FOOT,
+    traits: NO_TRAITS,
+    visual: { color: '#e64d4d', emissive: '#1a0000', icon: '🗡️' },
+  },
+  [UnitType.ARCHER]: {
+    type: UnitType.ARCHER,
+    name: 'Archer',
+    stats: { maxHealth: 80, attack: 15, defense: 5, movement: 4, range: 3, minRange: 1, sight: 5 },
+    cost: { gold: 120 },
+    abilities: ['volley', 'poison_arrow'],
+    movementClass: MovementClass.FOOT,
+    traits: { ...NO_TRAITS, retaliation: Retaliation.RANGED_ONLY },
+    visual: { color: '#4db34d', emissive: '#001a00', icon: '🏹' },
+  },
+  [UnitType.MAGE]: {
+    type: UnitType.MAGE,
+    name: 'Mage',
+    stats: { maxHealth: 60, attack: 25, defense: 3, movement: 2, range: 2, minRange: 1, sight: 4 },
+    cost: { gold: 150 },
+    abilities: ['fireball', 'heal'],
+    movementClass: MovementClass.FOOT,
+    traits: NO_TRAITS,
+    visual: { color: '#4d4de6', emissive: '#000033', icon: '🔮' },
+  },
+  [UnitType.CAVALRY]: {
+    type: UnitType.CAVALRY,
+    name: 'Cavalry',
+    stats: { maxHealth: 120, attack: 18, defense: 7, movement: 5, range: 1, minRange: 1, sight: 4 },
+    cost: { gold: 180 },
+    abilities: ['trample'],
+    movementClass: MovementClass.MOUNTED,
+    traits: { ...NO_TRAITS, chargeBonus: 10 },
+    visual: { color: '#b3804d', emissive: '#0d0500', icon: '🐎' },
+  },
+  [UnitType.SIEGE]: {
+    type: UnitType.SIEGE,
+    name: 'Siege Engine',
+    stats: { maxHealth: 70, attack: 32, defense: 2, movement: 2, range: 5, minRange: 2, sight: 2 },
+    cost: { gold: 220 },
+    abilities: [],
+    movementClass: MovementClass.WHEELED,
+    traits: { ...NO_TRAITS, castleBonus: 15, ignoresCastleDefense: true, cannotMoveAndFire: true, retaliation: Retaliation.NONE },
+    visual: { color: '#808080', emissive: '#050505', icon: '🪨' },
+  },
+};
+
+// Extra movement points each movement class pays on top of a tile's own cost
+export const MOVEMENT_CLASS_TERRAIN_COSTS: Record<MovementClass, Partial<Record<TileType, number>>> = {
+  [MovementClass.FOOT]: {},
+  [MovementClass.MOUNTED]: { [TileType.FOREST]: 1 },
+  [MovementClass.WHEELED]: { [TileType.FOREST]: 2 },
+};
+
+export function getUnitDefinition(unitType: string): UnitDefinition | undefined {
+  return UNIT_CATALOGUE[unitType as UnitType];
+}
+
+export function getUnitTraits(unitType: string): UnitTraits {
+  return getUnitDefinition(unitType)?.traits ?? NO_TRAITS;
+}
+
+export function getAbilitiesForUnit(unitType: string): AbilityDefinition[] {
+  const definition = getUnitDefinition(unitType);
+  return definition ? definition.abilities.map(id => ABILITIES[id]).filter(Boolean) : [];
+}
+
+export function getTerrainMovementPenalty(movementClass: MovementClass, tileType: string): number {
+  return MOVEMENT_CLASS_TERRAIN_COSTS[movementClass][tileType as TileType] ?? 0;
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const isCount = (value: unknown, min: number) => Number.isInteger(value) && (value as number) >= min;
+
+// Returns a list of problems; an empty list means the catalogue is usable
+export function validateUnitCatalogue(catalogue: Record<string, UnitDefinition> = UNIT_CATALOGUE): string[] {
+  const issues: string[] = [];
+
+  Object.values(UnitType).forEach(unitType => {
+    if (!catalogue[unitType]) issues.push(`${unitType}: missing definition`);
+  });
+
+  Object.entries(catalogue).forEach(([key, unit]) => {
+    const { stats } = unit;
+    if (unit.type !== key) issues.push(`${key}: type is '${unit.type}'`);
+    if (!isCount(stats.maxHealth, 1)) issues.push(`${key}: maxHealth must be a positive integer`);
+    if (!isCount(stats.attack, 0)) issues.push(`${key}: attack must be a non-negative integer`);
+    if (!isCount(stats.defense, 0)) issues.push(`${key}: defense must be a non-negative integer`);
+    if (!isCount(stats.movement, 0)) issues.push(`${key}: movement must be a non-negative integer`);
+    if (!isCount(stats.minRange, 1)) issues.push(`${key}: minRange must be at least 1`);
+    if (!isCount(stats.range, stats.minRange)) issues.push(`${key}: range must be at least minRange`);
+    if (!isCount(stats.sight, 1)) issues.push(`${key}: sight must be at least 1`);
+    if (!isCount(unit.cost.gold, 0)) issues.push(`${key}: gold cost must be a non-negative integer`);
+    if (!Object.values(MovementClass).includes(unit.movementClass)) {
+      issues.push(`${key}: unknown movement class '${unit.movementClass}'`);
+    }
+    if (!Object.values(Retaliation).includes(unit.traits.retaliation)) {
+      issues.push(`${key}: unknown retaliation rule '${unit.traits.retaliation}'`);
+    }
+    unit.abilities.forEach(abilityId => {
+      if (!ABILITIES[abilityId]) issues.push(`${key}: unknown ability '${abilityId}'`);
+    });
+    if (!HEX_COLOR.test(unit.visual.color) || !HEX_COLOR.test(unit.visual.emissive)) {
+      issues.push(`${key}: visual colours must be #rrggbb`);
+    }
+  });
+
+  return issues;
+}
+
+// Fails fast so a bad balance edit never reaches a running game
+export function assertValidUnitCatalogue(): void {
+  const issues = validateUnitCatalogue();
+  if (issues.length > 0) {
+    throw new Error(`Invalid unit catalogue:\n${issues.join('\n')}`);
+  }
+}
@@ -0,0 +1,92 @@
+export interface Rank {
+  level: number;
+  name: string;
+  experience: number; // Total XP needed to reach this rank
+}
+
+// Stat changes applied to a unit, either per promotion or from a perk
+export interface StatBonus {
+  maxHealth?: number;
+  attack?: number;
+  defense?: number;
+  movement?: number;
+  range?: number;
+  sight?: number;
+}
+
+export interface Perk {
+  id: string;
+  name: string;
+  description: string;
+  bonus: StatBonus;
+  rangedOnly?: boolean; // Only offered to units with range above 1
+}
+
+export const XP_PER_DAMAGE = 1;
+export const XP_PER_HEAL = 0.5;
+export const XP_PER_KILL = 25;
+
+export const RANKS: Rank[] = [
+  { level: 0, name: 'Recruit', experience: 0 },
+  { level: 1, name: 'Veteran', experience: 50 },
+  { level: 2, name: 'Elite', experience: 120 },
+  { level: 3, name: 'Hero', experience: 220 },
+];
+
+// Every promotion hardens the unit a little on top of the perk the player picks
+export const PROMOTION_BONUS: StatBonus = { maxHealth: 10, attack: 2, defense: 1 };
+
+export const PERKS: Record<string, Perk> = {
+  brute: {
+    id: 'brute',
+    name: 'Brute',
+    description: '+4 attack',
+    bonus: { attack: 4 },
+  },
+  stalwart: {
+    id: 'stalwart',
+    name: 'Stalwart',
+    description: '+3 defence and +10 health',
+    bonus: { defense: 3, maxHealth: 10 },
+  },
+  swift: {
+    id: 'swift',
+    name: 'Swift',
+    description: '+1 movement',
+    bonus: { movement: 1 },
+  },
+  eagle_eye: {
+    id: 'eagle_eye',
+    name: 'Eagle Eye',
+    description: '+1 range and +1 sight',
+    bonus: { range: 1, sight: 1 },
+    rangedOnly: true,
+  },
+};
+
+export function getRankForExperience(experience: number): Rank {
+  let rank = RANKS[0];
+  for (const candidate of RANKS) {
+    if (experience >= candidate.experience) rank = candidate;
+  }
+  return rank;
+}
+
+export function getNextRank(level: number): Rank | undefined {
+  return RANKS[level + 1];
+}
+
+export function getPerk(perkId: string | undefined): Perk | undefined {
+  return perkId ? PERKS[perkId] : undefined;
+}
+
+// Perks the unit may still pick; each perk can only be taken once
+export function getAvailablePerks(range: number, takenPerks: string[]): Perk[] {
+  return Object.values(PERKS).filter(perk =>
+    !takenPerks.includes(perk.id) && (!perk.rangedOnly || range > 1)
+  );
+}
+
+export function calculateExperience(damageDealt: number, healed: number, kills: number): number {
+  return Math.round(damageDealt * XP_PER_DAMAGE + healed * XP_PER_HEAL + kills * XP_PER_KILL);
+}
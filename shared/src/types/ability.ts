@@ -0,0 +1,44 @@
+export enum AbilityTargeting {
+  SELF = 'self',
+  ALLY = 'ally',
+  ENEMY = 'enemy',
+  TILE = 'tile'
+}
+
+export enum AbilityEffectType {
+  DAMAGE = 'damage',
+  HEAL = 'heal',
+  STATUS = 'status' // Only applies the ability's status effect
+}
+
+export interface AbilityDefinition {
+  id: string;
+  name: string;
+  description: string;
+  manaCost: number;
+  cooldown: number; // Owner turns before the ability can be used again
+  targeting: AbilityTargeting;
+  range: number;
+  areaRadius: number; // 0 only affects the target itself
+  effect: AbilityEffectType;
+  power: number;
+  status?: string; // Status effect applied to every unit hit that survives
+  requiresLineOfSight: boolean;
+  friendlyFire: boolean; // Whether area effects also hit the caster's own units
+}
+
+export interface AbilityHit {
+  unitId: string;
+  damage: number;
+  healed: number;
+  status?: string; // Status effect applied by the hit
+  killed: boolean;
+}
+
+export interface AbilityResult {
+  abilityId: string;
+  casterId: string;
+  target: { x: number; y: number };
+  manaSpent: number;
+  hits: AbilityHit[];
+}
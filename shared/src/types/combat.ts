@@ -0,0 +1,13 @@
+// How attack range is measured on the grid
+export type RangeMetric = 'manhattan' | 'chebyshev';
+
+export interface CombatResult {
+  attackerId: string;
+  defenderId: string;
+  damageDealt: number;
+  attackBonus: number; // Charge or siege bonus added to the attacker's attack
+  terrainDefense: number;
+  defenderKilled: boolean;
+  counterDamage: number; // Damage the defender dealt back, 0 if it could not retaliate
+  attackerKilled: boolean;
+}
@@ -1,3 +1,5 @@
+import { RangeMetric } from './combat';
+
 export enum GameStatus {
   WAITING = 'waiting',
   IN_PROGRESS = 'in_progress',
@@ -9,6 +11,12 @@ export enum GamePhase {
   BATTLE = 'battle'
 }
 
+export enum VictoryCondition {
+  LAST_ARMY_STANDING = 'last_army_standing',
+  CAPTURE_CASTLE = 'capture_castle',
+  TURN_LIMIT = 'turn_limit'
+}
+
 export interface GameState {
   id: string;
   status: GameStatus;
@@ -21,9 +29,60 @@ export interface GameState {
   updatedAt: Date;
 }
 
+export enum TurnTimerMode {
+  PER_TURN = 'per_turn', // turnTimeLimit seconds every turn
+  TIME_BANK = 'time_bank' // chess clock: turnTimeLimit seconds for the whole game plus an increment per turn
+}
+
+export enum TurnMode {
+  SEQUENTIAL = 'sequential', // players act one after another in playerOrder
+  SIMULTANEOUS = 'simultaneous' // everyone plans orders at once and the server resolves them together (WEGO)
+}
+
+export enum DisconnectPolicy {
+  BOT = 'bot', // an AI plays for a disconnected player until they come back
+  SKIP_TURN = 'skip_turn' // a disconnected player's turns end as soon as they begin
+}
+
+export enum TeamFormat {
+  FREE_FOR_ALL = 'ffa', // every player is their own team
+  TWO_VS_TWO = '2v2',
+  THREE_VS_THREE = '3v3',
+  FOUR_VS_FOUR = '4v4'
+}
+
+export enum BotDifficulty {
+  EASY = 'easy',
+  NORMAL = 'normal',
+  HARD = 'hard'
+}
+
 export interface GameSettings {
   mapId: string;
   maxPlayers: number;
   turnTimeLimit?: number; // seconds
   isPrivate: boolean;
+  rangeMetric?: RangeMetric; // defaults to 'manhattan'
+  victoryConditions?: VictoryCondition[]; // defaults to last army standing
+  turnLimit?: number; // used by VictoryCondition.TURN_LIMIT
+  counterDamageMultiplier?: number; // share of normal damage dealt when retaliating, defaults to 0.5
+  turnTimerMode?: TurnTimerMode; // defaults to per turn
+  timeBankIncrement?: number; // seconds added after each turn in time bank mode
+  turnMode?: TurnMode; // defaults to sequential; simultaneous turns always use a per-turn timer
+  teamFormat?: TeamFormat; // defaults to free-for-all
+  reconnectionWindow?: number; // seconds a dropped client can reconnect to its old session, 0 disables; defaults to 30
+  disconnectGracePeriod?: number; // seconds a disconnected player has to return before their turns are taken over, defaults to 60
+  disconnectPolicy?: DisconnectPolicy; // defaults to a bot taking over
+  spectatorDelay?: number; // seconds spectators trail the live game, 0 shows it live; defaults to 0
+}
+
+export interface PlayerStanding {
+  playerId: string;
+  username: string;
+  team: number;
+  rank: number;
+  score: number;
+  unitsRemaining: number;
+  isWinner: boolean;
+  eliminated: boolean;
 } 
\ No newline at end of file
@@ -6,7 +6,8 @@ export enum TileType {
   MOUNTAIN = 'mountain',
   WATER = 'water',
   ROAD = 'road',
-  CASTLE = 'castle'
+  CASTLE = 'castle',
+  VILLAGE = 'village'
 }
 
 export interface Tile {
@@ -1,6 +1,10 @@
-import { UnitAction } from './unit';
-import { GameState, GameSettings } from './game';
+import { UnitAction, UnitType, Position } from './unit';
+import { GameState, GameSettings, GamePhase, VictoryCondition, PlayerStanding, DisconnectPolicy } from './game';
+import { CombatResult } from './combat';
+import { AbilityResult } from './ability';
 import { Player } from './player';
+import { ActiveStatusEffect } from './status';
+import { EngineState, EngineUnit } from '../engine/state';
 
 // Client to Server messages
 export interface ClientMessage {
@@ -14,7 +18,14 @@ export enum ClientMessageType {
   PLAYER_READY = 'player_ready',
   UNIT_ACTION = 'unit_action',
   END_TURN = 'end_turn',
-  CHAT_MESSAGE = 'chat_message'
+  CHAT_MESSAGE = 'chat_message',
+  DEPLOY_UNIT = 'deploy_unit',
+  DEPLOYMENT_DONE = 'deployment_done',
+  RECRUIT_UNIT = 'recruit_unit',
+  CHOOSE_PERK = 'choose_perk',
+  UNDO = 'undo',
+  SUBMIT_ORDERS = 'submit_orders',
+  SPECTATE_PLAYER = 'spectate_player'
 }
 
 // Server to Client messages
@@ -31,6 +42,16 @@ export enum ServerMessageType {
   TURN_CHANGED = 'turn_changed',
   GAME_STARTED = 'game_started',
   GAME_ENDED = 'game_ended',
+  PHASE_CHANGED = 'phase_changed',
+  TURN_TIMER_WARNING = 'turn_timer_warning',
+  TURN_TIMED_OUT = 'turn_timed_out',
+  VISION_UPDATE = 'vision_update',
+  UNIT_RECRUITED = 'unit_recruited',
+  MOVE_UNDONE = 'move_undone',
+  ORDERS_SUBMITTED = 'orders_submitted',
+  TURN_RESOLVED = 'turn_resolved',
+  CONTROL_CHANGED = 'control_changed',
+  SPECTATOR_UPDATE = 'spectator_update',
   ERROR = 'error',
   CHAT_MESSAGE = 'chat_message',
   AUTHENTICATION_REQUIRED = 'authentication_required'
@@ -46,12 +67,198 @@ export interface UnitActionPayload {
   action: UnitAction;
 }
 
+export interface UnitActionResultPayload {
+  type: UnitAction['type'];
+  unitId: string;
+  success: boolean;
+  path?: { x: number; y: number }[];
+  combat?: CombatResult;
+  ability?: AbilityResult;
+  capturedTile?: { x: number; y: number };
+  promotions?: PromotionResult[];
+  actionPointsRemaining?: number;
+  canUndo?: boolean; // Only sent to the acting player
+  gameState?: any;
+}
+
+export interface PromotionResult {
+  unitId: string;
+  rank: number;
+}
+
+export interface ChoosePerkPayload {
+  unitId: string;
+  perkId: string;
+}
+
+export interface RecruitUnitPayload {
+  unitType: UnitType;
+  position: { x: number; y: number }; // An owned castle
+}
+
+export interface UnitRecruitedPayload {
+  unitId?: string; // Unknown until a queued recruit musters
+  unitType: UnitType;
+  position: { x: number; y: number };
+  goldRemaining: number;
+  queued?: boolean; // Simultaneous turns: the unit arrives once the turn resolves
+}
+
+export interface MoveUndonePayload {
+  unitId: string;
+  position: { x: number; y: number }; // Where the unit stands again
+  actionPointsRemaining: number;
+  canUndo: boolean; // Whether an earlier move can still be taken back
+  gameState?: any;
+}
+
+// Everything a player wants done this simultaneous turn, in the order they planned it
+export interface SubmitOrdersPayload {
+  orders: UnitAction[];
+}
+
+export interface OrdersSubmittedPayload {
+  playerId: string;
+  username: string;
+  waitingFor: string[]; // Usernames of the players still planning
+}
+
+// One resolved order as a player saw it; enemy orders out of sight are left out
+export interface ResolvedOrderView {
+  playerId: string;
+  action: UnitAction;
+  success: boolean;
+  error?: ErrorPayload;
+  path?: { x: number; y: number }[];
+  combat?: CombatResult;
+  ability?: AbilityResult;
+  units: EngineUnit[]; // Units the player could see right after this order
+}
+
+export interface TurnResolvedPayload {
+  turnNumber: number; // The turn that was just resolved
+  steps: ResolvedOrderView[];
+}
+
+// A disconnected player's turns were handed to the server, or the player came back for them
+export interface ControlChangedPayload {
+  playerId: string;
+  username: string;
+  takenOver: boolean;
+  policy: DisconnectPolicy;
+}
+
+// A unit as sent outside the synced room state
+export interface UnitView {
+  id: string;
+  playerId: string;
+  type: UnitType;
+  position: Position;
+  health: number;
+  maxHealth: number;
+  attack: number;
+  defense: number;
+  movement: number;
+  range: number;
+  minRange: number;
+  sight: number;
+  effects: ActiveStatusEffect[];
+  cooldowns: Record<string, number>; // Ability id -> owner turns until ready
+  experience: number;
+  rank: number;
+  pendingPerks: number;
+  perks: string[];
+  hasMoved: boolean;
+  hasAttacked: boolean;
+  isAlive: boolean;
+}
+
+// Sent to each player whenever what they can see changes
+export interface VisionUpdatePayload {
+  visibleTiles: number[]; // Row-major tile indices (y * mapWidth + x)
+  units: UnitView[]; // Enemy units currently in sight
+  tileOwners: Record<number, string>; // Tile index -> owner the player last knew of; missing means neutral
+}
+
+// Spectators pick whose vision to watch through; null shows the full map
+export interface SpectatePlayerPayload {
+  playerId: string | null;
+}
+
+// The board as a spectator sees it, lagging the game by the room's spectator delay
+export interface SpectatorUpdatePayload {
+  state: EngineState;
+  visibleTiles: number[] | null; // null when the whole map is shown
+  followingPlayerId: string | null;
+  turnNumber: number;
+  currentPlayerId: string;
+  phase: GamePhase;
+  delay: number; // Seconds behind the live game
+}
+
+export interface DeployUnitPayload {
+  unitType: UnitType;
+  position: Position;
+}
+
+export interface PhaseChangedPayload {
+  phase: GamePhase;
+  currentPlayer?: string;
+  currentPlayerName?: string;
+  gameState?: any;
+}
+
+export interface TurnTimerPayload {
+  playerId: string;
+  username: string;
+  secondsRemaining: number;
+}
+
+export interface GameEndedPayload {
+  winnerId: string | null; // null on a draw
+  winnerName: string | null;
+  winningTeam: number | null; // null on a draw
+  winnerIds: string[]; // Everyone on the winning team
+  reason: VictoryCondition;
+  turnNumber: number;
+  standings: PlayerStanding[];
+}
+
 export interface GameStateUpdatePayload {
   gameState: GameState;
   units: any[]; // Unit[]
 }
 
+export enum ErrorCode {
+  AUTHENTICATION_REQUIRED = 'AUTHENTICATION_REQUIRED',
+  GAME_IN_PROGRESS = 'GAME_IN_PROGRESS',
+  NOT_YOUR_TURN = 'NOT_YOUR_TURN',
+  INVALID_UNIT = 'INVALID_UNIT',
+  INVALID_ACTION = 'INVALID_ACTION',
+  UNIT_ALREADY_MOVED = 'UNIT_ALREADY_MOVED',
+  OUT_OF_BOUNDS = 'OUT_OF_BOUNDS',
+  TILE_NOT_WALKABLE = 'TILE_NOT_WALKABLE',
+  TILE_OCCUPIED = 'TILE_OCCUPIED',
+  TARGET_UNREACHABLE = 'TARGET_UNREACHABLE',
+  UNIT_ALREADY_ATTACKED = 'UNIT_ALREADY_ATTACKED',
+  INVALID_TARGET = 'INVALID_TARGET',
+  FRIENDLY_FIRE = 'FRIENDLY_FIRE',
+  TARGET_OUT_OF_RANGE = 'TARGET_OUT_OF_RANGE',
+  TARGET_TOO_CLOSE = 'TARGET_TOO_CLOSE',
+  LINE_OF_SIGHT_BLOCKED = 'LINE_OF_SIGHT_BLOCKED',
+  INSUFFICIENT_ACTION_POINTS = 'INSUFFICIENT_ACTION_POINTS',
+  INSUFFICIENT_MANA = 'INSUFFICIENT_MANA',
+  ABILITY_ON_COOLDOWN = 'ABILITY_ON_COOLDOWN',
+  INSUFFICIENT_GOLD = 'INSUFFICIENT_GOLD',
+  INVALID_RECRUITMENT = 'INVALID_RECRUITMENT',
+  INVALID_PERK = 'INVALID_PERK',
+  INVALID_PHASE = 'INVALID_PHASE',
+  INVALID_DEPLOYMENT = 'INVALID_DEPLOYMENT',
+  NOTHING_TO_UNDO = 'NOTHING_TO_UNDO',
+  SPECTATING_NOT_ALLOWED = 'SPECTATING_NOT_ALLOWED'
+}
+
 export interface ErrorPayload {
   message: string;
-  code: string;
+  code: ErrorCode;
 } 
\ No newline at end of file
@@ -0,0 +1,42 @@
+// What happens when an effect is applied to a unit that already has it
+export enum StackingRule {
+  REFRESH = 'refresh', // Duration resets, strength stays the same
+  STACK = 'stack', // Adds a stack up to maxStacks and resets the duration
+  IGNORE = 'ignore' // The running effect is left untouched
+}
+
+// Flat stat changes per stack while the effect lasts
+export interface StatusModifiers {
+  attack: number;
+  defense: number;
+  movement: number;
+}
+
+export interface StatusEffectDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  isDebuff: boolean;
+  duration: number; // Owner turn starts the effect survives
+  stacking: StackingRule;
+  maxStacks: number;
+  modifiers: Partial<StatusModifiers>;
+  damagePerTurn?: number; // Per stack, dealt at the start of the owner's turn
+  skipsTurn?: boolean; // The unit can neither move nor attack on the owner's next turn
+}
+
+// An effect currently running on a unit
+export interface ActiveStatusEffect {
+  effectId: string;
+  turnsRemaining: number;
+  stacks: number;
+}
+
+// Damage dealt by an effect when its owner's turn starts
+export interface StatusTick {
+  unitId: string;
+  effectId: string;
+  damage: number;
+  expired: boolean;
+}
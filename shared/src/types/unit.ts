@@ -19,6 +19,8 @@ export interface UnitStats {
   defense: number;
   movement: number;
   range: number;
+  minRange: number;
+  sight: number; // Vision radius for fog of war
 }
 
 export interface Unit {
@@ -38,4 +40,45 @@ export interface UnitAction {
   targetPosition?: Position;
   targetUnitId?: string;
   abilityId?: string;
-} 
\ No newline at end of file
+} 
+// Decides how terrain affects a unit's movement
+export enum MovementClass {
+  FOOT = 'foot',
+  MOUNTED = 'mounted',
+  WHEELED = 'wheeled'
+}
+
+// When a defender strikes back at the unit that attacked it
+export enum Retaliation {
+  ANY = 'any',
+  MELEE_ONLY = 'melee_only', // Only against adjacent attackers
+  RANGED_ONLY = 'ranged_only', // Only against attackers further than one tile away
+  NONE = 'none'
+}
+
+// Special combat behaviour on top of a unit type's base stats
+export interface UnitTraits {
+  chargeBonus: number; // Extra attack when the unit moved earlier in the same turn
+  castleBonus: number; // Extra attack against units standing on a castle
+  ignoresCastleDefense: boolean;
+  cannotMoveAndFire: boolean; // Moving and attacking are exclusive within a turn
+  retaliation: Retaliation;
+}
+
+// Hints the client uses when building the unit's mesh
+export interface UnitVisual {
+  color: string; // Hex, e.g. '#e64d4d'
+  emissive: string;
+  icon: string;
+}
+
+export interface UnitDefinition {
+  type: UnitType;
+  name: string;
+  stats: Omit<UnitStats, 'health'>;
+  cost: { gold: number };
+  abilities: string[];
+  movementClass: MovementClass;
+  traits: UnitTraits;
+  visual: UnitVisual;
+}